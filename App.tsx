@@ -1,15 +1,27 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { GameState, GamePhase, Player, GameMode, CellState, ShipType, Ship, GameLogEntry } from './types';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { GameState, GamePhase, Player, GameMode, GameAction, SavedGame, SeatConfig, GameConfig, Settings, OnlineSeat, RealtimeServerMessage, SpectatorViewMode } from './types';
 import Lobby from './components/Lobby';
 import SetupPhase from './components/SetupPhase';
 import GamePhaseComponent from './components/GamePhase';
 import GameOver from './components/GameOver';
-import { createEmptyGrid, canPlaceShip, placeShip, findRandomValidPlacement, createInitialPlayer, placeShipsForAI, processShot, advanceTurn } from './services/gameLogic';
-import { getAITacticalMove, getAIMove } from './services/geminiService';
+import { createGame, applyAction, getRejectionMessage, markCoached, startGame } from './services/gameLogic';
+import { createSeatPlayers, deployAIFleet } from './services/aiStrategies';
+import { AI_PACING_DELAYS, requestAITurn } from './services/aiClient';
+import { toShipDeployments } from './services/aiPlacement';
+import { connectToRealtimeServer, RealtimeConnection } from './services/realtimeService';
 import Spinner from './components/Spinner';
 import Toast from './components/Toast';
 import { getGameConfig } from './constants';
 import TurnTransition from './components/TurnTransition';
+import ReplayViewer from './components/ReplayViewer';
+import SpectatorScreen from './components/SpectatorScreen';
+import SettingsModal from './components/SettingsModal';
+import { createRng, generateSeed } from './services/random';
+import { saveGame, loadSavedGame, deleteSavedGame, loadSettings, saveSettings, watchSavedGame } from './services/storageService';
+import { restoreLiftedShip } from './services/skills';
+import { exportGameFile } from './services/gameFile';
+import { projectStateForPlayer } from './services/playerView';
+import { createSpectatorView } from './services/spectator';
 
 
 const App: React.FC = () => {
@@ -19,128 +31,227 @@ const App: React.FC = () => {
   const [isLoading, setIsLoading] = useState(false);
   const [toast, setToast] = useState<{ message: string; type: 'error' | 'info' | 'success' } | null>(null);
   const [viewMode, setViewMode] = useState<'desktop' | 'mobile'>('desktop');
+  const [isWatchingReplay, setIsWatchingReplay] = useState(false);
+  const [settings, setSettings] = useState<Settings>(() => loadSettings());
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  // Online games: the game state comes from the server, and only ever as this player's view of it.
+  const [isOnlineGame, setIsOnlineGame] = useState(false);
+  const [onlineSeat, setOnlineSeat] = useState<OnlineSeat | null>(null);
+  const connectionRef = useRef<RealtimeConnection | null>(null);
+  // Watching rather than playing: an online game through the server, or a local game played in another tab.
+  // Online, the server sends the chosen view; a local game arrives in full and is cut down to it here.
+  const [spectating, setSpectating] = useState<{ source: 'ONLINE' | 'LOCAL'; label: string; view: SpectatorViewMode; delayTurns: number } | null>(null);
+
+  const handleSettingsChange = (newSettings: Settings) => {
+    setSettings(newSettings);
+    saveSettings(newSettings);
+  };
 
   const showToast = useCallback((message: string, type: 'error' | 'info' | 'success' = 'info') => {
     setToast({ message, type });
   }, []);
 
-  const handleCreateGame = (playerName: string, gameMode: GameMode, opponentType: 'AI' | 'Human', player2Name?: string) => {
+  const handleCreateGame = (seats: SeatConfig[], gameMode: GameMode, seed?: string, customRules?: GameConfig) => {
     setIsLoading(true);
 
-    const { gridDimensions, shipsConfig } = getGameConfig(gameMode);
+    const config = getGameConfig(gameMode, customRules);
+    const players = createSeatPlayers(seats, config, gameMode);
+    const newGame = createGame(players, config.gridDimensions, config.shipsConfig, gameMode, seed?.trim() || generateSeed());
 
-    const player1 = createInitialPlayer(crypto.randomUUID(), playerName, false, shipsConfig, gridDimensions, gameMode);
-    
-    const players = [player1];
+    // Human commanders deploy in seat order; AI fleets are placed once they are all done.
+    setPlayerIndexToSetup(players.findIndex(p => !p.isAI));
+    setLocalPlayerId(players[0].id);
+    setGame(newGame);
+    setIsLoading(false);
+  };
 
-    if (opponentType === 'AI') {
-        const aiPlayer = createInitialPlayer(crypto.randomUUID(), 'Gemini AI', true, shipsConfig, gridDimensions, gameMode);
-        player1.shots[aiPlayer.id] = createEmptyGrid(gridDimensions.rows, gridDimensions.cols);
-        aiPlayer.shots[player1.id] = createEmptyGrid(gridDimensions.rows, gridDimensions.cols);
-        players.push(aiPlayer);
-    } else {
-        const player2 = createInitialPlayer(crypto.randomUUID(), player2Name!, false, shipsConfig, gridDimensions, gameMode);
-        player1.shots[player2.id] = createEmptyGrid(gridDimensions.rows, gridDimensions.cols);
-        player2.shots[player1.id] = createEmptyGrid(gridDimensions.rows, gridDimensions.cols);
-        players.push(player2);
-        setPlayerIndexToSetup(0);
+  const leaveOnlineGame = useCallback(() => {
+    connectionRef.current?.close();
+    connectionRef.current = null;
+    setIsOnlineGame(false);
+    setOnlineSeat(null);
+    setSpectating(null);
+  }, []);
+
+  const handleServerMessage = useCallback((message: RealtimeServerMessage) => {
+    switch (message.type) {
+      case 'ROOM_JOINED':
+        setOnlineSeat(message.seat);
+        setLocalPlayerId(message.seat.playerId);
+        break;
+      case 'WATCHING':
+        setSpectating({ source: 'ONLINE', label: `Room ${message.roomCode}`, view: message.view, delayTurns: message.delayTurns });
+        break;
+      case 'GAME_STATE':
+        setGame(message.game);
+        break;
+      case 'PLAYER_CONNECTION':
+        showToast(message.isConnected ? `${message.playerName} is back.` : `${message.playerName} lost their connection. Waiting for them to return...`, 'info');
+        break;
+      case 'ACTION_REJECTED':
+        showToast(getRejectionMessage(message.reason), 'error');
+        break;
+      case 'JOIN_FAILED':
+        showToast(message.message, 'error');
+        leaveOnlineGame();
+        setGame(null);
+        break;
+      case 'ERROR':
+        showToast(message.message, 'error');
+        break;
     }
+  }, [showToast, leaveOnlineGame]);
+
+  // A finished game stays on screen; anything else is lost with the server.
+  const handleServerClosed = useCallback(() => {
+    connectionRef.current = null;
+    setIsOnlineGame(false);
+    setOnlineSeat(null);
+    setSpectating(null);
+    setGame(currentGame => currentGame?.phase === GamePhase.GAME_OVER ? currentGame : null);
+    showToast("Lost the connection to the game server.", 'error');
+  }, [showToast]);
+
+  const connectOnline = (serverUrl: string) => {
+    leaveOnlineGame();
+    setGame(null);
+    setLocalPlayerId(null);
+    setPlayerIndexToSetup(null);
+    setIsOnlineGame(true);
+    const connection = connectToRealtimeServer(serverUrl, handleServerMessage, handleServerClosed);
+    connectionRef.current = connection;
+    return connection;
+  };
 
-    const newGame: GameState = {
-      gameId: crypto.randomUUID(),
-      phase: GamePhase.SETUP,
-      players,
-      currentPlayerId: null,
-      winner: null,
-      maxPlayers: 2,
-      turn: 1,
-      gridDimensions,
-      shipsConfig: shipsConfig as any,
-      gameMode,
-      log: [],
-      hasActedThisTurn: false,
-    };
+  const handleHostOnlineGame = (serverUrl: string, playerName: string, gameMode: GameMode, customRules?: GameConfig) => {
+    connectOnline(serverUrl).send({ type: 'CREATE_ROOM', playerName, gameMode, customRules, spectatorDelayTurns: settings.spectatorDelayTurns });
+  };
 
-    setLocalPlayerId(player1.id);
-    setGame(newGame);
-    setIsLoading(false);
+  const handleJoinOnlineGame = (serverUrl: string, roomCode: string, playerName: string) => {
+    connectOnline(serverUrl).send({ type: 'JOIN_ROOM', roomCode, playerName });
+  };
+
+  const handleWatchOnlineGame = (serverUrl: string, roomCode: string, spectatorName: string) => {
+    connectOnline(serverUrl).send({ type: 'WATCH_ROOM', roomCode, spectatorName });
+  };
+
+  const handleWatchLocalGame = (gameId: string) => {
+    const save = loadSavedGame(gameId);
+    if (!save) {
+      showToast("That save can't be loaded by this version of the game.", "error");
+      return;
+    }
+    setLocalPlayerId(null);
+    setPlayerIndexToSetup(null);
+    setGame(save.game);
+    setSpectating({ source: 'LOCAL', label: 'Local game', view: { type: 'OMNISCIENT' }, delayTurns: settings.spectatorDelayTurns });
+  };
+
+  const handleChangeSpectatorView = (view: SpectatorViewMode) => {
+    if (spectating?.source === 'ONLINE') connectionRef.current?.send({ type: 'SET_SPECTATOR_VIEW', view });
+    setSpectating(current => current && { ...current, view });
+  };
+
+  // A local game is watched through its autosave, which the tab playing it rewrites after every move.
+  const watchedGameId = spectating?.source === 'LOCAL' ? game?.gameId : undefined;
+  useEffect(() => {
+    if (!watchedGameId) return;
+    let hasEnded = false;
+    return watchSavedGame(watchedGameId, save => {
+      if (save) {
+        hasEnded = save.game.phase === GamePhase.GAME_OVER;
+        setGame(save.game);
+      } else if (!hasEnded) {
+        showToast('The game is no longer being played.', 'info');
+      }
+    });
+  }, [watchedGameId, showToast]);
+
+  const openSavedGame = (save: SavedGame) => {
+    // A ship lifted for Escape or Relocate goes back in place; the player can pick it up again.
+    const resumedGame = restoreLiftedShip(save.game);
+    resumedGame.activeAction = null;
+    setPlayerIndexToSetup(null);
+    setLocalPlayerId(save.localPlayerId);
+    setGame(resumedGame);
+  };
+
+  const handleResumeGame = (gameId: string) => {
+    const save = loadSavedGame(gameId);
+    if (!save) {
+      showToast("That save can't be loaded by this version of the game.", "error");
+      return;
+    }
+    openSavedGame(save);
+  };
+
+  const handleImportGame = (save: SavedGame) => {
+    openSavedGame(save);
+    showToast("Game imported.", "success");
+  };
+
+  const handleExportGame = () => {
+    if (!game || !localPlayerId) return;
+    exportGameFile(game, localPlayerId);
   };
 
   const handleReady = (playerWithShips: Player) => {
     if (!game) return;
+    if (connectionRef.current) {
+        connectionRef.current.send({ type: 'DEPLOY_FLEET', deployments: toShipDeployments(playerWithShips.ships) });
+        return;
+    }
 
-    const playerIndex = game.players.findIndex(p => p.id === playerWithShips.id);
-    if (playerIndex === -1) return;
+    const newPlayers = game.players.map(p => p.id === playerWithShips.id ? { ...playerWithShips, isReady: true } : p);
+    const nextHumanIndex = newPlayers.findIndex(p => !p.isAI && !p.isReady);
 
-    const newPlayers = [...game.players];
-    newPlayers[playerIndex] = { ...playerWithShips, isReady: true };
-    const updatedGame = { ...game, players: newPlayers };
+    if (nextHumanIndex !== -1) {
+        // Hand the device over before the next commander deploys.
+        setPlayerIndexToSetup(nextHumanIndex);
+        setGame({ ...game, players: newPlayers, phase: GamePhase.TURN_TRANSITION, currentPlayerId: newPlayers[nextHumanIndex].id });
+        return;
+    }
 
-    const isHotSeat = updatedGame.players.every(p => !p.isAI);
+    const rng = createRng(game.rngState);
+    const deployedPlayers = newPlayers.map(p => p.isAI ? deployAIFleet(p, game, rng) : p);
+    setPlayerIndexToSetup(null);
+    setGame(startGame({ ...game, players: deployedPlayers, rngState: rng.getState() }, deployedPlayers[0].id));
+  };
 
-    if (isHotSeat) {
-        if (playerIndexToSetup === 0) {
-            setPlayerIndexToSetup(1);
-            setGame({ ...updatedGame, phase: GamePhase.TURN_TRANSITION, currentPlayerId: updatedGame.players[1].id });
-        } else {
-            setPlayerIndexToSetup(null);
-            setGame({ ...updatedGame, phase: GamePhase.PLAYING, currentPlayerId: updatedGame.players[0].id });
-        }
-    } else { // vs AI
-        const aiPlayerIndex = newPlayers.findIndex(p => p.isAI);
-        if (aiPlayerIndex !== -1) {
-            newPlayers[aiPlayerIndex] = placeShipsForAI(newPlayers[aiPlayerIndex], game.shipsConfig, game.gridDimensions);
+  const handleAction = (action: GameAction): boolean => {
+    if (!game) return false;
+    // Online, the server has the final say and sends the new state back; checking the action here first still gives instant feedback.
+    const commit = (accepted: GameAction, state: GameState) => {
+        if (connectionRef.current) connectionRef.current.send({ type: 'GAME_ACTION', action: accepted });
+        else setGame(state);
+    };
+    const result = applyAction(game, action);
+    if (result.success === false) {
+        showToast(getRejectionMessage(result.reason), "error");
+        // A refused skill also drops its targeting mode, which puts back any ship lifted for placement.
+        if (action.type === 'USE_SKILL') {
+            const cancel: GameAction = { type: 'SELECT_ACTION', playerId: action.playerId, action: null };
+            const cancelled = applyAction(game, cancel);
+            if (cancelled.success === true) commit(cancel, cancelled.state);
         }
-        setGame({
-            ...updatedGame,
-            players: newPlayers,
-            phase: GamePhase.PLAYING,
-            currentPlayerId: newPlayers[0].id,
-        });
+        return false;
     }
+    commit(action, result.state);
+    return true;
   };
 
-  const handleFireShot = (targetPlayerId: string | null, x: number, y: number) => {
-      if (!game || !targetPlayerId) return;
-      const updatedGame = processShot(game, targetPlayerId, x, y);
-      setGame(updatedGame);
-  }
-  
-  const handleEndTurn = () => {
-    if (!game) return;
-    const updatedGame = advanceTurn(JSON.parse(JSON.stringify(game)));
-    setGame(updatedGame);
-  };
-  
+  const handleCoachUsed = useCallback((coachedPlayerId: string) => {
+    // Online games keep their record on the server, which notes the coach for whoever sent this.
+    if (connectionRef.current) connectionRef.current.send({ type: 'COACH_USED' });
+    else setGame(currentGame => currentGame && markCoached(currentGame, coachedPlayerId));
+  }, []);
+
   const handleExitGame = () => {
+    leaveOnlineGame();
     setGame(null);
     setLocalPlayerId(null);
     setPlayerIndexToSetup(null);
-  };
-
-  const handleSurrender = () => {
-    if (!game) return;
-    const surrenderingPlayerId = game.currentPlayerId;
-    if (!surrenderingPlayerId) return;
-
-    const surrenderingPlayer = game.players.find(p => p.id === surrenderingPlayerId);
-    const opponent = game.players.find(p => p.id !== surrenderingPlayerId);
-    if (!opponent || !surrenderingPlayer) return;
-
-    const newLogEntry: GameLogEntry = {
-        turn: game.turn,
-        playerId: surrenderingPlayerId,
-        playerName: surrenderingPlayer.name,
-        result: 'SKILL_USED',
-        message: `${surrenderingPlayer.name} has surrendered.`
-    };
-
-    setGame({
-        ...game,
-        phase: GamePhase.GAME_OVER,
-        winner: opponent.id,
-        log: [newLogEntry, ...game.log]
-    });
+    setIsWatchingReplay(false);
   };
 
    const handleContinueFromTransition = () => {
@@ -152,317 +263,124 @@ const App: React.FC = () => {
     }
   };
   
-  // AI Turn Logic
+  // Autosave: every accepted action produces a new game state, so saving on change covers shots, skills and turn changes.
   useEffect(() => {
-    if (game?.phase === GamePhase.PLAYING && game.currentPlayerId) {
-        const currentPlayer = game.players.find(p => p.id === game.currentPlayerId);
-
-        if (currentPlayer?.isAI && !game.hasActedThisTurn) {
-            const handleAITurn = () => {
-                setTimeout(() => {
-                  setGame(currentGame => {
-                    if (!currentGame || currentGame.phase !== GamePhase.PLAYING || currentGame.currentPlayerId !== currentPlayer.id) return currentGame;
-                    
-                    if (currentGame.gameMode === 'TACTICAL') {
-                        const opponent = currentGame.players.find(p => p.id !== currentPlayer.id)!;
-                        const move = getAITacticalMove(currentPlayer, opponent, currentGame);
-                        
-                        const fallbackToAttack = (state: GameState): GameState => {
-                            console.warn("AI skill failed or was invalid, falling back to attack:", move);
-                            const fallbackMove = getAIMove(currentPlayer.shots[opponent.id] || createEmptyGrid(game.gridDimensions.rows, game.gridDimensions.cols), game.gridDimensions);
-                            return processShot(state, opponent.id, fallbackMove.x, fallbackMove.y);
-                        };
-
-                        if (move.action === 'ATTACK') {
-                             if (move.coords && typeof move.coords.x === 'number' && typeof move.coords.y === 'number') {
-                                return processShot(currentGame, opponent.id, move.coords.x, move.coords.y);
-                            } else {
-                                return fallbackToAttack(currentGame);
-                            }
-                        } else if (move.action === 'SKILL') {
-                           const { success, newState } = handleUseSkill(move.shipType, move.coords || { targetShipType: move.targetShipType }, true, currentGame);
-                           if (success) {
-                               return newState;
-                           }
-                           return fallbackToAttack(currentGame);
-                        } else {
-                           return fallbackToAttack(currentGame);
-                        }
-                  });
-                }, 1500);
-            };
-            handleAITurn();
-        } else if (currentPlayer?.isAI && game.hasActedThisTurn) {
-             const endAITurn = () => {
-                 setTimeout(() => {
-                    setGame(currentGame => {
-                       if (currentGame && currentGame.phase === GamePhase.PLAYING && currentGame.currentPlayerId === currentPlayer.id && currentGame.hasActedThisTurn) {
-                           return advanceTurn(JSON.parse(JSON.stringify(currentGame)));
-                       }
-                       return currentGame;
-                    });
-                 }, 1000);
-            };
-            endAITurn();
-        }
-    }
-   }, [game]);
-
-  const handleUseSkill = (skillType: ShipType, options: any, isAI: boolean = false, gameStateOverride?: GameState): { success: boolean, newState: GameState } => {
-    const sourceGame = gameStateOverride || game;
-    if (!sourceGame) return { success: false, newState: sourceGame! };
-
-    const currentGameState: GameState = JSON.parse(JSON.stringify(sourceGame)); // Work on a copy
-    const attacker = currentGameState.players.find(p => p.id === currentGameState.currentPlayerId)!;
-    const logEntry = { turn: currentGameState.turn, playerId: attacker.id, playerName: attacker.name, result: 'SKILL_USED' as const, message: `${skillType} used` };
-    let actionTaken = true;
-
-    // --- Start of Skill Logic ---
-     switch(skillType) {
-        case 'Mothership': {
-            if (isAI) {
-                const mothership = attacker.ships.find(s => s.type === 'Mothership')!;
-                const placement = findRandomValidPlacement(attacker, mothership, game!.gridDimensions);
-
-                if (placement) {
-                    // Clear old positions from attacker grid and opponent shots
-                    const gridWithoutOldShip = attacker.grid.map(row => [...row]);
-                    mothership.positions.forEach(pos => { gridWithoutOldShip[pos.y][pos.x] = CellState.EMPTY; });
-                    currentGameState.players.forEach((player: Player) => {
-                        if (player.id !== attacker.id) {
-                            mothership.positions.forEach(pos => {
-                                if (player.shots[attacker.id]?.[pos.y]?.[pos.x]) {
-                                    player.shots[attacker.id][pos.y][pos.x] = CellState.EMPTY;
-                                }
-                            });
-                        }
-                    });
-
-                    const { newGrid, newShip } = placeShip(gridWithoutOldShip, mothership, placement.x, placement.y, placement.isHorizontal);
-                    
-                    const shipIndex = attacker.ships.findIndex(s => s.type === 'Mothership');
-                    attacker.ships[shipIndex] = { ...newShip, isDamaged: false }; // Repair it
-                    attacker.grid = newGrid;
-                    attacker.skillUses!.Mothership = 0;
-                    logEntry.message = `${attacker.name} used Escape! The Mothership has been repaired and relocated!`;
-                } else {
-                    actionTaken = false; 
-                }
-            } else { // Human logic
-                const { x, y, isHorizontal } = options;
-                const originalPositions = currentGameState.activeAction!.originalPositions!;
-                const mothershipFromAction = currentGameState.activeAction!.shipToMove!;
-                
-                if (canPlaceShip(attacker.grid, mothershipFromAction, x, y, isHorizontal, game!.gridDimensions)) {
-                    const mothership = attacker.ships.find(s => s.type === 'Mothership')!;
-                    mothership.isDamaged = false; // The skill repairs it fully
-                    
-                    currentGameState.players.forEach((player: Player) => {
-                        if (player.id !== attacker.id) {
-                            originalPositions.forEach(pos => {
-                                 if (player.shots[attacker.id]?.[pos.y]?.[pos.x]) {
-                                    player.shots[attacker.id][pos.y][pos.x] = CellState.EMPTY;
-                                }
-                            });
-                        }
-                    });
-                    
-                    const { newGrid, newShip } = placeShip(attacker.grid, mothership, x, y, isHorizontal);
-                    mothership.positions = newShip.positions;
-                    attacker.grid = newGrid;
-                    attacker.skillUses!.Mothership = 0;
-                    logEntry.message = `${attacker.name} used Escape! The Mothership has been repaired and relocated!`;
-                } else {
-                    if (!isAI) showToast("Invalid placement for escape maneuver.", "error");
-                    const mothership = attacker.ships.find(s => s.type === 'Mothership')!;
-                    mothership.positions = originalPositions.map(p => ({ x: p.x, y: p.y }));
-                    originalPositions.forEach(pos => { attacker.grid[pos.y][pos.x] = pos.state; });
-                    actionTaken = false;
-                }
-            }
-            break;
-        }
-        case 'Radarship': {
-            const opponent = currentGameState.players.find((p: Player) => p.id !== attacker.id)!;
-            const scanResults: { x: number, y: number, state: CellState }[] = [];
-            for (let i = 0; i <= 1; i++) for (let j = 0; j <= 1; j++) {
-                const checkX = options.x + j, checkY = options.y + i;
-                if (checkX < game!.gridDimensions.cols && checkY < game!.gridDimensions.rows) {
-                    if (attacker.shots[opponent.id][checkY][checkX] === CellState.EMPTY) {
-                        const opponentCell = opponent.grid[checkY][checkX];
-                        scanResults.push({ x: checkX, y: checkY, state: (opponentCell === CellState.SHIP || opponentCell === CellState.DECOY) ? CellState.RADAR_CONTACT : CellState.MISS });
-                    }
-                }
-            }
-            attacker.skillCooldowns.Radarship = 3;
-            logEntry.message = `Radar Scan used. Cooldown set to 3 turns.`;
-            currentGameState.radarScanResult = { playerId: attacker.id, results: scanResults };
-            break;
-        }
-        case 'Jamship': {
-            const opponent = currentGameState.players.find((p: Player) => p.id !== attacker.id)!;
-            const jammedCoords = [];
-            for (let i = -1; i <= 1; i++) for (let j = -1; j <= 1; j++) {
-                const checkX = options.x + j, checkY = options.y + i;
-                 if (checkX >= 0 && checkX < game!.gridDimensions.cols && checkY >= 0 && checkY < game!.gridDimensions.rows) {
-                    jammedCoords.push({ x: checkX, y: checkY });
-                 }
-            }
-            opponent.jammedPositions = jammedCoords;
-            opponent.jamTurnsRemaining = 1;
-            currentGameState.jammedArea = { playerId: opponent.id, coords: jammedCoords };
-            attacker.skillCooldowns.Jamship = 4;
-            logEntry.message = `${attacker.name} used Jam. Cooldown set to 4 turns.`;
-            break;
-        }
-        case 'Repairship': {
-            const repairedShip = attacker.ships.find((s: Ship) => s.positions.some(p => p.x === options.x && p.y === options.y));
-            if (repairedShip?.isSunk || repairedShip?.hasBeenRepaired || attacker.grid[options.y][options.x] !== CellState.HIT || (currentGameState.hitLog?.[attacker.id]?.[`${options.x},${options.y}`] ?? 999) >= currentGameState.turn) {
-                if(!isAI) showToast("Cannot repair this part.", "error");
-                actionTaken = false; break;
-            }
-            attacker.grid[options.y][options.x] = CellState.SHIP;
-            currentGameState.players.forEach((p: Player) => { p.shots[attacker.id] && (p.shots[attacker.id][options.y][options.x] = CellState.EMPTY) });
-            attacker.skillCooldowns.Repairship = 3;
-            repairedShip.hasBeenRepaired = true;
-            const isStillDamaged = repairedShip.positions.some(p => attacker.grid[p.y][p.x] === CellState.HIT);
-            repairedShip.isDamaged = isStillDamaged;
-             logEntry.message = `${attacker.name} repaired their ${repairedShip.name}. Cooldown: 3 turns.`;
-             if (!isStillDamaged) logEntry.message += ` It's fully repaired and hidden!`;
-            break;
-        }
-        case 'Decoyship': {
-            const { x, y } = options;
-            if (attacker.grid[y][x] === CellState.EMPTY) {
-                attacker.grid[y][x] = CellState.DECOY;
-                attacker.decoyPositions.push({ x, y });
-                attacker.skillUses.Decoyship!--;
-                logEntry.message = `${attacker.name} deployed a decoy beacon.`;
-            } else {
-                if (!isAI) showToast("Cannot place decoy there.", "error");
-                actionTaken = false;
-            }
-            break;
-        }
-        case 'Commandship': {
-            if (isAI) {
-                const shipToMove = attacker.ships.find((s: Ship) => s.type === options.targetShipType);
-                if (!shipToMove || shipToMove.isDamaged || shipToMove.isSunk || shipToMove.hasBeenRelocated) { actionTaken = false; break; }
-                const placement = findRandomValidPlacement(attacker, shipToMove, game!.gridDimensions);
-                if (placement) {
-                    const gridWithoutShip = attacker.grid.map(row => [...row]);
-                    shipToMove.positions.forEach(pos => { gridWithoutShip[pos.y][pos.x] = CellState.EMPTY; });
-                    const { newGrid, newShip } = placeShip(gridWithoutShip, shipToMove, placement.x, placement.y, placement.isHorizontal);
-                    const shipIndex = attacker.ships.findIndex(s => s.name === newShip.name);
-                    attacker.ships[shipIndex] = { ...newShip, hasBeenRelocated: true };
-                    attacker.grid = newGrid;
-                    attacker.skillCooldowns.Commandship = 4;
-                    logEntry.message = `${attacker.name} relocated their ${shipToMove.name}.`;
-                } else { actionTaken = false; }
-            } else { // Human
-                const { x, y, isHorizontal } = options;
-                const originalPositions = currentGameState.activeAction!.originalPositions!;
-                const shipToMoveFromAction = currentGameState.activeAction!.shipToMove!;
-                if (canPlaceShip(attacker.grid, shipToMoveFromAction, x, y, isHorizontal, game!.gridDimensions)) {
-                    const shipIndex = attacker.ships.findIndex(s => s.name === shipToMoveFromAction.name)!;
-                    const { newGrid, newShip } = placeShip(attacker.grid, attacker.ships[shipIndex], x, y, isHorizontal);
-                    attacker.ships[shipIndex] = { ...newShip, hasBeenRelocated: true };
-                    attacker.grid = newGrid;
-                    attacker.skillCooldowns.Commandship = 4;
-                    logEntry.message = `${attacker.name} relocated their ${shipToMoveFromAction.name}.`;
-                } else {
-                    if (!isAI) showToast("Invalid placement for relocation.", "error");
-                    const shipToRestore = attacker.ships.find(s => s.name === shipToMoveFromAction.name)!;
-                    shipToRestore.positions = originalPositions.map(p => ({ x: p.x, y: p.y }));
-                    originalPositions.forEach(pos => { attacker.grid[pos.y][pos.x] = pos.state; });
-                    actionTaken = false;
-                }
-            }
-            break;
-        }
-    }
-    // --- End of Skill Logic ---
-    if (!actionTaken) {
-        currentGameState.activeAction = null;
-        if(!gameStateOverride) setGame(currentGameState);
-        return { success: false, newState: currentGameState };
+    // Online games live on the server, and this client only ever holds its own view of one.
+    if (!game || !localPlayerId || isOnlineGame) return;
+    if (game.phase === GamePhase.GAME_OVER) {
+      // Written once more before it goes, so a tab spectating the game sees how it ended.
+      saveGame(game, localPlayerId);
+      deleteSavedGame(game.gameId);
+    } else if (game.phase === GamePhase.PLAYING || (game.phase === GamePhase.TURN_TRANSITION && playerIndexToSetup === null)) {
+      saveGame(game, localPlayerId);
     }
+  }, [game, localPlayerId, playerIndexToSetup, isOnlineGame]);
 
-    currentGameState.log.unshift(logEntry);
-    currentGameState.hasActedThisTurn = true;
-    currentGameState.activeAction = null;
-    if(!gameStateOverride) setGame(currentGameState);
-    return { success: true, newState: currentGameState };
-  };
-  
-  const promiseBasedUseSkill = async (skillType: ShipType, options: any): Promise<boolean> => {
-     return handleUseSkill(skillType, options).success;
-  }
-
-  const handleSetActiveAction = (action: any) => {
-    if (!game) return;
-    setGame({ ...game, activeAction: action });
-  };
-  
-   const handleActivateMothershipEscape = () => {
-    if (!game) return;
-    const newState = JSON.parse(JSON.stringify(game));
-    const player = newState.players.find(p => p.id === newState.currentPlayerId);
-    if (!player) return;
-    const mothership = player.ships.find(s => s.type === 'Mothership');
-    if (!mothership || !player.escapeSkillUnlocked || (player.skillUses?.Mothership ?? 0) <= 0) return;
-    const isHorizontal = mothership.positions.length > 1 ? mothership.positions[0].y === mothership.positions[1].y : true;
-    const originalPositionsWithState = mothership.positions.map(pos => ({ x: pos.x, y: pos.y, state: player.grid[pos.y][pos.x] as CellState }));
-    mothership.positions.forEach(pos => { player.grid[pos.y][pos.x] = CellState.EMPTY; });
-    mothership.positions = [];
-    newState.activeAction = { playerId: player.id, type: 'SKILL', shipType: 'Mothership', stage: 'PLACE_SHIP', shipToMove: mothership, originalPositions: originalPositionsWithState, isHorizontal: isHorizontal };
-    setGame(newState);
-  };
+  // AI Turn Logic. The AI thinks in a worker while the pacing delay runs, and its move lands once both are done.
+  // Any change to the game before then cancels the request, and the effect asks again about the new state.
+  useEffect(() => {
+    // Spectators only watch: the AI plays in the tab, or on the server, that hosts the game.
+    if (game?.phase !== GamePhase.PLAYING || !game.currentPlayerId || spectating) return;
+    const currentPlayer = game.players.find(p => p.id === game.currentPlayerId);
+    if (!currentPlayer?.isAI) return;
+    const pacing = AI_PACING_DELAYS[settings.aiPacing] ?? AI_PACING_DELAYS.NORMAL;
+
+    if (!game.hasActedThisTurn) {
+        // The AI's strategy only gets to see what a human in its seat could.
+        const request = requestAITurn(game, settings.aiTimeBudgetMs);
+        let paceTimer: ReturnType<typeof setTimeout>;
+        const paced = new Promise(resolve => { paceTimer = setTimeout(resolve, pacing.beforeAction); });
+        let isCurrent = true;
+        Promise.all([request.result, paced]).then(([nextGame]) => {
+            if (isCurrent) setGame(currentGame => currentGame === game ? nextGame : currentGame);
+        }).catch(error => {
+            console.error("The AI could not take its turn:", error);
+            if (isCurrent) showToast(`${currentPlayer.name} could not take its turn.`, 'error');
+        });
+        return () => {
+            isCurrent = false;
+            clearTimeout(paceTimer);
+            request.cancel();
+        };
+    }
 
-  const handleSelectShipForRelocation = (shipToRelocate: Ship) => {
-    if (!game) return;
-    const newState = JSON.parse(JSON.stringify(game));
-    const player = newState.players.find(p => p.id === newState.currentPlayerId);
-    if (!player) return;
-    const ship = player.ships.find(s => s.name === shipToRelocate.name);
-    if (!ship || ship.isDamaged || ship.hasBeenRelocated) return;
-    const isHorizontal = ship.positions.length > 1 ? ship.positions[0].y === ship.positions[1].y : true;
-    const originalPositionsWithState = ship.positions.map(pos => ({ x: pos.x, y: pos.y, state: player.grid[pos.y][pos.x] as CellState }));
-    ship.positions.forEach(pos => { player.grid[pos.y][pos.x] = CellState.EMPTY; });
-    ship.positions = [];
-    newState.activeAction = { playerId: player.id, type: 'SKILL', shipType: 'Commandship', stage: 'PLACE_SHIP', shipToMove: ship, originalPositions: originalPositionsWithState, isHorizontal: isHorizontal };
-    setGame(newState);
-  };
+    const endTurnTimer = setTimeout(() => {
+        setGame(currentGame => {
+           if (!currentGame) return currentGame;
+           const result = applyAction(currentGame, { type: 'END_TURN', playerId: currentPlayer.id });
+           return result.success === true ? result.state : currentGame;
+        });
+    }, pacing.beforeEndTurn);
+    return () => clearTimeout(endTurnTimer);
+   }, [game, settings.aiPacing, settings.aiTimeBudgetMs, spectating]);
 
-  const WaitingScreen: React.FC<{ message: string }> = ({ message }) => (
+  const WaitingScreen: React.FC<{ message: string; children?: React.ReactNode }> = ({ message, children }) => (
       <div className="min-h-screen flex flex-col items-center justify-center bg-slate-900">
         <Spinner />
         <p className="mt-4 text-slate-300">{message}</p>
+        {children}
       </div>
   );
 
+  // With several humans at one screen, the view follows whichever of them is taking their turn.
+  const turnPlayer = game?.players.find(p => p.id === game.currentPlayerId);
+  const isHotSeat = !isOnlineGame && !spectating && !!game && game.players.filter(p => !p.isAI).length > 1;
+  const viewerId = isHotSeat && turnPlayer && !turnPlayer.isAI ? turnPlayer.id : localPlayerId;
+  // The game screen only ever gets what the player at it may see, so nothing it renders or holds can leak a hidden fleet.
+  const viewerView = useMemo(
+    () => game?.phase === GamePhase.PLAYING && viewerId ? projectStateForPlayer(game, viewerId) : null,
+    [game, viewerId],
+  );
+  const spectatorView = useMemo(
+    () => game && spectating ? (spectating.source === 'LOCAL' ? createSpectatorView(game, spectating.view, spectating.delayTurns) : game) : null,
+    [game, spectating],
+  );
+
   let pageContent;
   if (isLoading) {
     pageContent = <WaitingScreen message="Loading Game..." />;
+  } else if (spectating && spectatorView) {
+    pageContent = <SpectatorScreen
+      game={spectatorView}
+      view={spectating.view}
+      delayTurns={spectating.delayTurns}
+      sourceLabel={spectating.label}
+      onChangeView={handleChangeSpectatorView}
+      onLeave={handleExitGame}
+      coordinateSystem={settings.coordinateSystem}
+    />;
+  } else if (isOnlineGame && !game) {
+    pageContent = (
+      <WaitingScreen message={onlineSeat ? 'Waiting for an opponent to join...' : spectating ? 'Waiting for both commanders to join...' : 'Connecting to the game server...'}>
+        {onlineSeat && (
+          <p className="mt-6 text-slate-400 text-center">
+            Room code<br />
+            <span className="font-mono text-4xl tracking-[0.3em] text-cyan-300">{onlineSeat.roomCode}</span>
+          </p>
+        )}
+        <button onClick={handleExitGame} className="mt-6 btn-angular bg-slate-700/50 hover:bg-slate-600/50 text-slate-200 font-bold py-2 px-6">Cancel</button>
+      </WaitingScreen>
+    );
   } else if (!game || !localPlayerId) {
-    pageContent = <Lobby onCreateGame={handleCreateGame} />;
+    pageContent = <Lobby onCreateGame={handleCreateGame} onResumeGame={handleResumeGame} onImportGame={handleImportGame} onOpenSettings={() => setIsSettingsOpen(true)} onHostOnlineGame={handleHostOnlineGame} onJoinOnlineGame={handleJoinOnlineGame} onWatchLocalGame={handleWatchLocalGame} onWatchOnlineGame={handleWatchOnlineGame} />;
   } else if (game.phase === GamePhase.SETUP) {
-    const isHotSeat = game.players.every(p => !p.isAI);
-    const playerToSetup = game.players[isHotSeat ? playerIndexToSetup! : 0];
+    const playerToSetup = isOnlineGame ? game.players.find(p => p.id === localPlayerId) : game.players[playerIndexToSetup ?? 0];
 
     if (playerToSetup && !playerToSetup.isReady) {
-       pageContent = <SetupPhase game={game} playerToSetup={playerToSetup} onReady={handleReady} showToast={showToast} />;
+       pageContent = <SetupPhase key={playerToSetup.id} game={game} playerToSetup={playerToSetup} onReady={handleReady} showToast={showToast} coordinateSystem={settings.coordinateSystem} />;
     } else {
-       pageContent = <WaitingScreen message="Preparing battle..." />;
+       pageContent = <WaitingScreen message={isOnlineGame ? 'Waiting for your opponent to deploy...' : 'Preparing battle...'} />;
     }
   } else if (game.phase === GamePhase.TURN_TRANSITION) {
     const nextPlayer = game.players.find(p => p.id === game.currentPlayerId)!;
-    const prevPlayerIndex = (game.players.findIndex(p => p.id === nextPlayer.id) + game.players.length - 1) % game.players.length;
-    const prevPlayer = game.players[prevPlayerIndex];
     const isSetupTransition = playerIndexToSetup !== null;
+    // Whoever acted last: the previous human to deploy, or the last fleet to take a turn (possibly an AI).
+    const prevPlayerName = isSetupTransition
+        ? game.players.slice(0, playerIndexToSetup).filter(p => !p.isAI).pop()?.name
+        : game.log[0]?.playerName;
     const message = isSetupTransition 
-        ? `Setup complete for ${game.players[0].name}.`
-        : `Turn complete for ${prevPlayer.name}.`;
+        ? `Setup complete for ${prevPlayerName}.`
+        : `Turn complete for ${prevPlayerName ?? 'the previous commander'}.`;
 
     pageContent = <TurnTransition
       nextPlayerName={nextPlayer.name}
@@ -470,23 +388,23 @@ const App: React.FC = () => {
       isSetupTransition={isSetupTransition}
       message={message}
     />;
-  } else if (game.phase === GamePhase.PLAYING) {
-    const isHotSeat = game.players.every(p => !p.isAI);
+  } else if (game.phase === GamePhase.PLAYING && viewerView) {
     pageContent = <GamePhaseComponent 
-      game={game} 
-      playerId={isHotSeat ? game.currentPlayerId! : localPlayerId}
-      onFireShot={handleFireShot}
-      onSurrender={handleSurrender}
-      onSetActiveAction={handleSetActiveAction}
-      onUseSkill={promiseBasedUseSkill}
-      onEndTurn={handleEndTurn}
-      onActivateMothershipEscape={handleActivateMothershipEscape}
-      onSelectShipForRelocation={handleSelectShipForRelocation}
+      game={viewerView} 
+      playerId={viewerId}
+      onAction={handleAction}
       viewMode={viewMode}
       setViewMode={setViewMode}
+      onExportGame={isOnlineGame ? undefined : handleExportGame}
+      coordinateSystem={settings.coordinateSystem}
+      showAIReasoning={settings.showAIReasoning}
+      onOpenSettings={() => setIsSettingsOpen(true)}
+      onCoachUsed={handleCoachUsed}
     />;
   } else if (game.phase === GamePhase.GAME_OVER) {
-    pageContent = <GameOver game={game} onExitGame={handleExitGame}/>;
+    pageContent = isWatchingReplay
+      ? <ReplayViewer game={game} onClose={() => setIsWatchingReplay(false)} coordinateSystem={settings.coordinateSystem} />
+      : <GameOver game={game} onExitGame={handleExitGame} onWatchReplay={() => setIsWatchingReplay(true)} onExportGame={handleExportGame} />;
   } else {
     pageContent = <WaitingScreen message="Loading game state..." />;
   }
@@ -494,6 +412,7 @@ const App: React.FC = () => {
   return (
     <>
       {pageContent}
+      <SettingsModal isOpen={isSettingsOpen} settings={settings} onChange={handleSettingsChange} onClose={() => setIsSettingsOpen(false)} />
       {toast && <Toast message={toast.message} type={toast.type} onClose={() => setToast(null)} />}
     </>
   );
@@ -0,0 +1,95 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { AIDecision, AIRationale, CoordinateSystem } from '../types';
+import { formatCoords } from '../services/coordinates';
+import LightbulbIcon from './icons/LightbulbIcon';
+
+interface AIReasoningPanelProps {
+    decisions: AIDecision[];
+    gridDimensions: { rows: number; cols: number };
+    coordinateSystem: CoordinateSystem;
+}
+
+/**
+ * Words an AI rationale for the panel, e.g. "high-probability cell C7 34%".
+ */
+const describeRationale = (rationale: AIRationale, gridDimensions: { rows: number; cols: number }, coordinateSystem: CoordinateSystem): string => {
+    const at = rationale.coords ? formatCoords(rationale.coords, gridDimensions, coordinateSystem) : '';
+    const odds = rationale.chance !== undefined ? ` ${Math.round(Math.min(1, rationale.chance) * 100)}%` : '';
+    const ship = rationale.shipName ?? 'ship';
+
+    switch (rationale.reason) {
+        case 'ESCAPE': return `escape: ${ship} damaged`;
+        case 'REPAIR_MOTHERSHIP': return at ? `repairing ${ship} damage at ${at}` : `repairing ${ship} damage`;
+        case 'FINISH_MOTHERSHIP': return `finishing off the Mothership at ${at}`;
+        case 'HIGH_PROBABILITY': return `high-probability cell ${at}${odds}`;
+        case 'FOLLOW_UP': return `following up a hit at ${at}`;
+        case 'HUNT': return `hunting on a parity pattern at ${at}${odds}`;
+        case 'JAM_REPAIR': return `jamming to block repair near ${at}`;
+        case 'RELOCATE': return `relocating the threatened ${ship}`;
+        case 'REPAIR': return at ? `repairing ${ship} at ${at}` : `repairing a ${ship}`;
+        case 'RADAR': return `radar sweep of the densest area at ${at}`;
+        case 'DECOY': return 'laying a decoy in a quiet area';
+        case 'RANDOM': return `random shot at ${at}`;
+        case 'FALLBACK': return `fallback shot at ${at}`;
+        case 'OUT_OF_TIME': return `out of thinking time: quick shot at ${at}`;
+        default: return rationale.reason;
+    }
+};
+
+const AIReasoningPanel: React.FC<AIReasoningPanelProps> = ({ decisions, gridDimensions, coordinateSystem }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const listRef = useRef<HTMLDivElement>(null);
+    const wrapperRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        if (isOpen && listRef.current) {
+            listRef.current.scrollTop = 0;
+        }
+    }, [decisions, isOpen]);
+
+    useEffect(() => {
+        function handleClickOutside(event: MouseEvent) {
+            if (wrapperRef.current && !wrapperRef.current.contains(event.target as Node)) {
+                setIsOpen(false);
+            }
+        }
+        document.addEventListener("mousedown", handleClickOutside);
+        return () => {
+            document.removeEventListener("mousedown", handleClickOutside);
+        };
+    }, [wrapperRef]);
+
+    return (
+        <div className="relative" ref={wrapperRef}>
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className="p-3 bg-cyan-800/50 hover:bg-cyan-700/50 rounded-full text-slate-200 transition-colors"
+                aria-label="Toggle AI Reasoning"
+            >
+                <LightbulbIcon className="w-6 h-6" />
+            </button>
+            {isOpen && (
+                <div className="absolute top-full right-0 mt-2 z-50 w-96 max-h-[70vh] bg-slate-800/95 backdrop-blur-sm border-2 border-slate-600 rounded-lg shadow-2xl fade-in-down">
+                    <div className="p-4 h-full flex flex-col">
+                        <h3 className="text-2xl font-bold text-slate-200 border-b border-slate-600 pb-2 mb-3">AI Reasoning</h3>
+                        <div ref={listRef} className="flex-1 overflow-y-auto pr-2 space-y-2">
+                            {decisions.length === 0 && <p className="text-slate-400 text-center mt-4">No AI moves yet.</p>}
+                            {decisions.map((decision, index) => (
+                                <div key={index} className="flex items-center gap-3 text-slate-300 p-2 text-sm bg-slate-700/50 rounded-md">
+                                    <span className="font-mono text-slate-500 text-xs">T{decision.turn}</span>
+                                    <span className="flex-1">
+                                        <strong>{decision.playerName}</strong>
+                                        {decision.targetName && <span className="text-slate-400"> → {decision.targetName}</span>}
+                                        : {describeRationale(decision.rationale, gridDimensions, coordinateSystem)}
+                                    </span>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default AIReasoningPanel;
@@ -95,7 +95,7 @@ const ActionHub: React.FC<ActionHubProps> = ({ player, activeAction, onActionSel
                         Ready
                     </span>
                 </button>
-                {skillConfig.map(({ type, name, Icon }) => {
+                {skillConfig.filter(({ type }) => player.ships.some(s => s.type === type)).map(({ type, name, Icon }) => {
                     const status = getActionStatus(type);
                     const isActive = activeAction?.shipType === type;
                     const isJammed = status.label === 'JAMMED';
@@ -0,0 +1,35 @@
+import React from 'react';
+import { CoachAdvice, CoordinateSystem } from '../types';
+import { formatCoords } from '../services/coordinates';
+import CoachIcon from './icons/CoachIcon';
+
+interface CoachPanelProps {
+    advice: CoachAdvice;
+    gridDimensions: { rows: number; cols: number };
+    coordinateSystem: CoordinateSystem;
+}
+
+const CoachPanel: React.FC<CoachPanelProps> = ({ advice, gridDimensions, coordinateSystem }) => {
+    const at = (coords: { x: number; y: number }) => formatCoords(coords, gridDimensions, coordinateSystem);
+    const { bestShot, skill } = advice;
+
+    return (
+        <div className="mt-3 p-3 bg-amber-900/20 border border-amber-500/40 rounded-md text-sm text-slate-300 space-y-1 fade-in">
+            <p className="flex items-center gap-2 font-bold text-amber-300">
+                <CoachIcon className="w-4 h-4" /> Coach
+            </p>
+            {bestShot
+                ? <p>Best shot: <strong className="text-amber-200">{at(bestShot)}</strong>, {Math.round(bestShot.chance * 100)}% to hit.</p>
+                : <p>No squares left to fire at on this fleet.</p>}
+            {skill?.shipType === 'Radarship' && (
+                <p>Radar would pay off: scan the block from <strong className="text-cyan-300">{at(skill)}</strong> before firing blind.</p>
+            )}
+            {skill?.shipType === 'Jamship' && (
+                <p>Jam around <strong className="text-cyan-300">{at(skill)}</strong> so the damage you have done can't be repaired.</p>
+            )}
+            <p className="text-xs text-slate-500">Shading shows where ships are likely to be. Coached games are flagged in the game record.</p>
+        </div>
+    );
+};
+
+export default CoachPanel;
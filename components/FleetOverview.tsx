@@ -0,0 +1,53 @@
+import React from 'react';
+import { CellState, Grid as GridType, Player } from '../types';
+import { createEmptyGrid } from '../services/gameLogic';
+
+interface FleetOverviewProps {
+  viewer: Player;
+  opponents: Player[];
+  selectedId: string;
+  gridDimensions: { rows: number; cols: number };
+  onSelect: (playerId: string) => void;
+}
+
+const MINI_CELL_COLORS: Partial<Record<CellState, string>> = {
+  [CellState.HIT]: 'bg-orange-400',
+  [CellState.SUNK]: 'bg-red-600',
+  [CellState.MISS]: 'bg-cyan-800',
+  [CellState.RADAR_CONTACT]: 'bg-cyan-400',
+};
+
+const MiniGrid: React.FC<{ grid: GridType; cols: number }> = ({ grid, cols }) => (
+  <div className="grid gap-px bg-slate-700/50 p-px" style={{ gridTemplateColumns: `repeat(${cols}, minmax(0, 1fr))` }}>
+    {grid.flatMap((row, y) => row.map((cell, x) => (
+      <div key={`${x}-${y}`} className={`aspect-square ${MINI_CELL_COLORS[cell] ?? 'bg-slate-900'}`}></div>
+    )))}
+  </div>
+);
+
+// A compact view of the viewer's shots against every enemy fleet. Clicking a fleet makes it the target.
+const FleetOverview: React.FC<FleetOverviewProps> = ({ viewer, opponents, selectedId, gridDimensions, onSelect }) => {
+  return (
+    <div className="grid grid-cols-3 gap-2 mt-3">
+      {opponents.map(opponent => {
+        const shipsAfloat = opponent.ships.filter(s => !s.isSunk).length;
+        const isSelected = opponent.id === selectedId;
+        return (
+          <button
+            key={opponent.id}
+            onClick={() => onSelect(opponent.id)}
+            disabled={opponent.isEliminated}
+            className={`p-1.5 text-left bg-slate-900/60 border transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${isSelected ? 'border-cyan-400' : 'border-slate-700 hover:border-slate-500'}`}
+            aria-label={`Target ${opponent.name}`}
+          >
+            <p className="text-xs font-bold text-slate-200 truncate">{opponent.name}</p>
+            <p className="text-[10px] text-slate-400 mb-1">{opponent.isEliminated ? 'Eliminated' : `${shipsAfloat}/${opponent.ships.length} ships afloat`}</p>
+            <MiniGrid grid={viewer.shots[opponent.id] || createEmptyGrid(gridDimensions.rows, gridDimensions.cols)} cols={gridDimensions.cols} />
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default FleetOverview;
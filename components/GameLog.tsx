@@ -1,5 +1,6 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { GameLogEntry, Player, GameMode } from '../types';
+import { GameLogEntry, Player, GameMode, CoordinateSystem } from '../types';
+import { formatCoords } from '../services/coordinates';
 import HistoryIcon from './icons/HistoryIcon';
 import TargetIcon from './icons/TargetIcon';
 import ExplosionIcon from './icons/ExplosionIcon';
@@ -7,16 +8,19 @@ import WaterIcon from './icons/WaterIcon';
 import ShipIcon from './icons/ShipIcon';
 
 interface GameLogProps {
+    // From the viewer's projection of the game, so hidden details are already gone.
     log: GameLogEntry[];
     players: Player[];
     currentUserId: string;
     gameMode: GameMode;
+    gridDimensions: { rows: number; cols: number };
+    coordinateSystem: CoordinateSystem;
+    // Shows the log as a panel that stays open, e.g. for spectators, instead of behind a toggle.
+    isPinned?: boolean;
 }
 
-const getColumnLetter = (col: number) => String.fromCharCode(65 + col);
-
-const GameLog: React.FC<GameLogProps> = ({ log, players, currentUserId, gameMode }) => {
-    const [isOpen, setIsOpen] = useState(false);
+const GameLog: React.FC<GameLogProps> = ({ log, players, currentUserId, gameMode, gridDimensions, coordinateSystem, isPinned = false }) => {
+    const [isOpen, setIsOpen] = useState(isPinned);
     const logContainerRef = useRef<HTMLDivElement>(null);
     const wrapperRef = useRef<HTMLDivElement>(null);
 
@@ -43,7 +47,7 @@ const GameLog: React.FC<GameLogProps> = ({ log, players, currentUserId, gameMode
         const isCurrentUser = entry.playerId === currentUserId;
         const playerName = isCurrentUser ? "You" : entry.playerName;
         const targetName = entry.targetId === currentUserId ? "your" : (entry.targetName ? `${entry.targetName}'s` : '');
-        const coords = entry.coords ? `${getColumnLetter(entry.coords.x)}${entry.coords.y + 1}` : '';
+        const coords = entry.coords ? formatCoords(entry.coords, gridDimensions, coordinateSystem) : '';
 
         if (gameMode === 'TACTICAL' && entry.result === 'SKILL_USED') {
              return (
@@ -94,6 +98,27 @@ const GameLog: React.FC<GameLogProps> = ({ log, players, currentUserId, gameMode
         }
     };
 
+    const entries = (
+        <div ref={logContainerRef} className="flex-1 overflow-y-auto pr-2 space-y-2">
+            {log.length === 0 && <p className="text-slate-400 text-center mt-4">No events yet.</p>}
+            {log.map((entry, index) => (
+                <div key={index} className="flex items-center gap-3 text-slate-300 p-2 text-sm bg-slate-700/50 rounded-md">
+                    <span className="font-mono text-slate-500 text-xs">T{entry.turn}</span>
+                    {formatLogEntry(entry)}
+                </div>
+            ))}
+        </div>
+    );
+
+    if (isPinned) {
+        return (
+            <div className="command-panel p-4 flex flex-col max-h-[50vh]">
+                <h3 className="text-2xl font-bold text-slate-200 border-b border-slate-600 pb-2 mb-3">Game Log</h3>
+                {entries}
+            </div>
+        );
+    }
+
     return (
         <div className="relative" ref={wrapperRef}>
             <button
@@ -107,15 +132,7 @@ const GameLog: React.FC<GameLogProps> = ({ log, players, currentUserId, gameMode
                 <div className="absolute top-full right-0 mt-2 z-50 w-96 max-h-[70vh] bg-slate-800/95 backdrop-blur-sm border-2 border-slate-600 rounded-lg shadow-2xl fade-in-down">
                     <div className="p-4 h-full flex flex-col">
                         <h3 className="text-2xl font-bold text-slate-200 border-b border-slate-600 pb-2 mb-3">Game Log</h3>
-                        <div ref={logContainerRef} className="flex-1 overflow-y-auto pr-2 space-y-2">
-                            {log.length === 0 && <p className="text-slate-400 text-center mt-4">No events yet.</p>}
-                            {log.map((entry, index) => (
-                                <div key={index} className="flex items-center gap-3 text-slate-300 p-2 text-sm bg-slate-700/50 rounded-md">
-                                    <span className="font-mono text-slate-500 text-xs">T{entry.turn}</span>
-                                    {formatLogEntry(entry)}
-                                </div>
-                            ))}
-                        </div>
+                        {entries}
                     </div>
                 </div>
             )}
@@ -6,10 +6,13 @@ import FullscreenIcon from './icons/FullscreenIcon';
 interface GameOverProps {
   game: GameState;
   onExitGame: () => void;
+  onWatchReplay: () => void;
+  onExportGame: () => void;
 }
 
-const GameOver: React.FC<GameOverProps> = ({ game, onExitGame }) => {
+const GameOver: React.FC<GameOverProps> = ({ game, onExitGame, onWatchReplay, onExportGame }) => {
   const winner = game.players.find(p => p.id === game.winner);
+  const coachedNames = game.players.filter(p => game.record?.coachedPlayerIds?.includes(p.id)).map(p => p.name);
   const [isFullscreen, setIsFullscreen] = useState(!!document.fullscreenElement);
 
   const toggleFullscreen = useCallback(() => {
@@ -42,10 +45,18 @@ const GameOver: React.FC<GameOverProps> = ({ game, onExitGame }) => {
   // This resolves the TypeScript error.
 
   const renderWinMessage = () => {
+    if (winner?.teamId) {
+        const teammates = game.players.filter(p => p.teamId === winner.teamId).map(p => p.name).join(' & ');
+        return (
+            <h2 className="text-2xl sm:text-4xl text-white mb-8">
+                <span className="font-bold text-yellow-300">Team {winner.teamId}</span> ({teammates}) wins the battle!
+            </h2>
+        );
+    }
     if (game.gameMode === 'TACTICAL') {
         return winner ? (
             <h2 className="text-2xl sm:text-4xl text-white mb-8">
-                <span className="font-bold text-yellow-300">{winner.name}</span> has destroyed the enemy Mothership!
+                <span className="font-bold text-yellow-300">{winner.name}</span> {game.players.length > 2 ? 'commands the last Mothership afloat!' : 'has destroyed the enemy Mothership!'}
             </h2>
         ) : (
             <h2 className="text-2xl sm:text-4xl text-white mb-8">The battle ended in a stalemate.</h2>
@@ -75,6 +86,24 @@ const GameOver: React.FC<GameOverProps> = ({ game, onExitGame }) => {
           ENGAGEMENT OVER
         </h1>
         {renderWinMessage()}
+        <p className="text-sm text-slate-400 tracking-wider">Seed: <span className="font-mono text-cyan-300">{game.seed}</span></p>
+        {coachedNames.length > 0 && (
+          <p className="text-sm text-amber-300/80 tracking-wider">Played with the coach: {coachedNames.join(', ')}</p>
+        )}
+        {game.record && (
+          <button
+            onClick={onWatchReplay}
+            className="btn-angular bg-slate-700/50 hover:bg-slate-600/50 text-slate-200 font-bold py-4 px-10 text-xl transition-transform transform hover:scale-105 mr-4"
+          >
+            Watch Replay
+          </button>
+        )}
+        <button
+          onClick={onExportGame}
+          className="btn-angular bg-slate-700/50 hover:bg-slate-600/50 text-slate-200 font-bold py-4 px-10 text-xl transition-transform transform hover:scale-105 mr-4"
+        >
+          Export Game
+        </button>
         <button
           onClick={onExitGame}
           className="btn-angular btn-start font-bold py-4 px-10 text-xl transition-transform transform hover:scale-105"
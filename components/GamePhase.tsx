@@ -1,10 +1,13 @@
 import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
-import { GameState, Player, GameLogEntry, Ship, ShipType, CellState } from '../types';
+import { GameState, Player, GameLogEntry, Ship, ShipType, CellState, SkillRequest, ActiveAction, GameAction, CoordinateSystem } from '../types';
 import Grid from './Grid';
 import ShipStatus from './ShipStatus';
 import ExitIcon from './icons/ExitIcon';
-import { createEmptyGrid, canPlaceShip } from '../services/gameLogic';
+import { createEmptyGrid, canPlaceShip, areAllies } from '../services/gameLogic';
 import GameLog from './GameLog';
+import AIReasoningPanel from './AIReasoningPanel';
+import CoachPanel from './CoachPanel';
+import CoachIcon from './icons/CoachIcon';
 import CancelIcon from './icons/CancelIcon';
 import HelpTab from './HelpTab';
 import InfoIcon from './icons/InfoIcon';
@@ -16,6 +19,12 @@ import MobileIcon from './icons/MobileIcon';
 import DesktopIcon from './icons/DesktopIcon';
 import HelpIcon from './icons/HelpIcon';
 import ConfirmationModal from './ConfirmationModal';
+import DownloadIcon from './icons/DownloadIcon';
+import FleetOverview from './FleetOverview';
+import SettingsIcon from './icons/SettingsIcon';
+import { formatCoords, parseCoords } from '../services/coordinates';
+import { createAIView } from '../services/aiView';
+import { getCoachAdvice } from '../services/geminiService';
 
 const Cannonball: React.FC<{ startRect: DOMRect, endRect: DOMRect }> = ({ startRect, endRect }) => {
   const [styles, setStyles] = useState<React.CSSProperties & { [key: string]: any }>({});
@@ -111,8 +120,8 @@ const StaticBurstEffect: React.FC<{ rect: DOMRect }> = ({ rect }) => {
 };
 
 const ActiveActionInfo: React.FC<{ 
-    activeAction: any, 
-    onSetActiveAction: (action: any) => void,
+    activeAction: ActiveAction, 
+    onSetActiveAction: (action: ActiveAction | null) => void,
     onRotatePlacement?: () => void,
     isPlacementHorizontal?: boolean,
 }> = ({ activeAction, onSetActiveAction, onRotatePlacement, isPlacementHorizontal }) => {
@@ -184,24 +193,24 @@ const ActiveActionInfo: React.FC<{
 
 
 interface GamePhaseProps {
+  // The game as `playerId` may see it, from `projectStateForPlayer`; never the full state.
   game: GameState;
   playerId: string;
-  onFireShot: (targetPlayerId: string | null, x: number, y: number) => void;
-  onSurrender: () => void;
-  onSetActiveAction: (action: any) => void;
-  onUseSkill: (skillType: ShipType, options: any) => Promise<boolean>;
-  onEndTurn: () => void;
-  onActivateMothershipEscape: () => void;
-  onSelectShipForRelocation: (ship: Ship) => void;
+  onAction: (action: GameAction) => boolean;
   viewMode: 'desktop' | 'mobile';
   setViewMode: (mode: 'desktop' | 'mobile') => void;
+  // Left out where the game can't be exported, as in an online game in progress.
+  onExportGame?: () => void;
+  coordinateSystem: CoordinateSystem;
+  showAIReasoning: boolean;
+  onOpenSettings: () => void;
+  onCoachUsed: (playerId: string) => void;
 }
 
 const GamePhase: React.FC<GamePhaseProps> = ({ 
-    game, playerId, onFireShot, onSurrender, 
-    onSetActiveAction, onUseSkill, onEndTurn, 
-    onActivateMothershipEscape, onSelectShipForRelocation,
-    viewMode, setViewMode 
+    game, playerId, onAction,
+    viewMode, setViewMode, onExportGame,
+    coordinateSystem, showAIReasoning, onOpenSettings, onCoachUsed
 }) => {
   const [isFullscreen, setIsFullscreen] = useState(!!document.fullscreenElement);
   
@@ -211,6 +220,9 @@ const GamePhase: React.FC<GamePhaseProps> = ({
   const [skillAnimation, setSkillAnimation] = useState<{ type: string; rect: DOMRect; key: number } | null>(null);
   const [staticBurst, setStaticBurst] = useState<{ rect: DOMRect; key: number } | null>(null);
   const [hoveredCellEl, setHoveredCellEl] = useState<HTMLElement | null>(null);
+  const [typedTarget, setTypedTarget] = useState('');
+  const [typedTargetError, setTypedTargetError] = useState('');
+  const opponentGridRef = useRef<HTMLDivElement>(null);
   const isAnimating = useRef(false);
   const mothershipRef = useRef<HTMLDivElement>(null);
   const cannonTipRef = useRef<HTMLDivElement>(null);
@@ -219,12 +231,33 @@ const GamePhase: React.FC<GamePhaseProps> = ({
   const endTurnTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const [isHelpOpen, setIsHelpOpen] = useState(false);
   const [isSurrenderModalOpen, setIsSurrenderModalOpen] = useState(false);
+  const [isCoachOn, setIsCoachOn] = useState(false);
 
   // --- Player and Turn Logic ---
   const localPlayer = useMemo(() => game.players.find(p => p.id === playerId)!, [game.players, playerId]);
-  const opponent = useMemo(() => game.players.find(p => p.id !== playerId)!, [game.players, playerId]);
+  const opponents = useMemo(() => {
+    const viewer = game.players.find(p => p.id === playerId);
+    return game.players.filter(p => p.id !== playerId && !(viewer && areAllies(p, viewer)));
+  }, [game.players, playerId]);
+  const allies = game.players.filter(p => localPlayer && areAllies(p, localPlayer));
+  const [selectedTargetId, setSelectedTargetId] = useState<string | null>(null);
+  // The fleet shown on the opponent grid; falls back to the first fleet still in play if the selection was eliminated.
+  const opponent = opponents.find(p => p.id === selectedTargetId && !p.isEliminated) ?? opponents.find(p => !p.isEliminated) ?? opponents[0];
   const turnPlayer = game.players.find(p => p.id === game.currentPlayerId);
 
+  // The coach works from the same redacted view an AI gets, built for the local player, so it only knows what they do.
+  const coachAdvice = useMemo(() => {
+    if (!isCoachOn || !opponent) return null;
+    const view = createAIView(game, playerId);
+    const target = view.opponents.find(o => o.id === opponent.id);
+    return target ? getCoachAdvice(view, target) : null;
+  }, [isCoachOn, game, playerId, opponent?.id]);
+
+  // Whoever is at the screen while the coach is on gets flagged, which in hot-seat games may be several players.
+  useEffect(() => {
+    if (isCoachOn) onCoachUsed(playerId);
+  }, [isCoachOn, playerId, onCoachUsed]);
+
   if (!turnPlayer || !localPlayer || !opponent) return null;
 
   const isMyTurn = game.currentPlayerId === playerId;
@@ -236,6 +269,11 @@ const GamePhase: React.FC<GamePhaseProps> = ({
   const [animatedShot, setAnimatedShot] = useState<GameLogEntry | null>(null);
   const [hoveredCell, setHoveredCell] = useState<{ x: number; y: number } | null>(null);
 
+  const onSetActiveAction = (action: ActiveAction | null) => onAction({ type: 'SELECT_ACTION', playerId, action });
+  const onUseSkill = (skill: SkillRequest) => onAction({ type: 'USE_SKILL', playerId, skill });
+  const onFireShot = (targetId: string, x: number, y: number) => onAction({ type: 'FIRE_SHOT', playerId, targetId, x, y });
+  const onEndTurn = useCallback(() => onAction({ type: 'END_TURN', playerId }), [onAction, playerId]);
+
   // Auto End Turn Logic
   useEffect(() => {
     if (endTurnTimerRef.current) {
@@ -331,14 +369,14 @@ const GamePhase: React.FC<GamePhaseProps> = ({
     const cooldown = localPlayer.skillCooldowns[actionType] ?? 0;
     const uses = localPlayer.skillUses[actionType] ?? 1;
     if (cooldown > 0 || uses <= 0) return;
-    if (actionType === 'Mothership') { onActivateMothershipEscape(); return; }
+    if (actionType === 'Mothership') { onAction({ type: 'SELECT_SHIP', playerId, shipType: 'Mothership', shipName: ship.name }); return; }
     const newAction = { playerId, type: 'SKILL' as const, shipType: actionType };
     if (actionType === 'Commandship') onSetActiveAction({ ...newAction, stage: 'SELECT_SHIP' });
     else if (actionType === 'Decoyship') onSetActiveAction({ ...newAction, stage: 'PLACE_DECOY' });
     else onSetActiveAction(newAction);
   }
 
-  const handleAttack = (targetPlayerId: string | null, x: number, y: number, targetEl: HTMLElement) => {
+  const handleAttack = (targetPlayerId: string, x: number, y: number, targetEl: HTMLElement) => {
     if (!canTakeAction || !activeAction || activeAction.type !== 'ATTACK' || isAnimating.current) return;
     const cannonEl = cannonTipRef.current;
     if (!cannonEl) {
@@ -360,15 +398,37 @@ const GamePhase: React.FC<GamePhaseProps> = ({
     }, 700);
   };
 
-  const handleOpponentGridClick = async (targetPlayerId: string | null, x: number, y: number, event?: React.MouseEvent<HTMLButtonElement>) => {
-    if (!canTakeAction || !activeAction || !event || !event.currentTarget) return;
-    const targetEl = event.currentTarget;
+  const handleOpponentGridClick = (targetPlayerId: string, x: number, y: number, event?: React.MouseEvent<HTMLButtonElement>) => {
+    if (!event || !event.currentTarget) return;
+    targetOpponentCell(targetPlayerId, x, y, event.currentTarget);
+  }
+
+  // A square typed in the player's coordinate system acts like a click on that square of the enemy grid.
+  const handleTypedTarget = (e: React.FormEvent) => {
+    e.preventDefault();
+    const coords = parseCoords(typedTarget, game.gridDimensions, coordinateSystem);
+    const targetEl = coords && opponentGridRef.current?.querySelector<HTMLElement>(`[data-cell="${coords.x},${coords.y}"]`);
+    if (!coords || !targetEl) {
+      setTypedTargetError(`"${typedTarget.trim()}" isn't a square on this board. Try ${formatCoords({ x: 1, y: 6 }, game.gridDimensions, coordinateSystem)}.`);
+      return;
+    }
+    if (activeAction?.type === 'ATTACK' && (localPlayer.shots[opponent.id]?.[coords.y]?.[coords.x] ?? CellState.EMPTY) !== CellState.EMPTY) {
+      setTypedTargetError(`You have already fired at ${formatCoords(coords, game.gridDimensions, coordinateSystem)}.`);
+      return;
+    }
+    setTypedTargetError('');
+    setTypedTarget('');
+    targetOpponentCell(opponent.id, coords.x, coords.y, targetEl);
+  };
+
+  const targetOpponentCell = (targetPlayerId: string, x: number, y: number, targetEl: HTMLElement) => {
+    if (!canTakeAction || !activeAction) return;
     if (activeAction.type === 'ATTACK') {
       handleAttack(targetPlayerId, x, y, targetEl);
     } else if (activeAction.type === 'SKILL') {
       let success = false;
       if(activeAction.shipType === 'Radarship' || activeAction.shipType === 'Jamship') {
-        success = await onUseSkill(activeAction.shipType, { x, y });
+        success = onUseSkill({ shipType: activeAction.shipType, targetId: targetPlayerId, x, y });
       }
       if (success) {
         const rect = targetEl.getBoundingClientRect();
@@ -385,15 +445,18 @@ const GamePhase: React.FC<GamePhaseProps> = ({
     }
   }
   
-  const handleOwnGridClick = async (x: number, y: number, event?: React.MouseEvent<HTMLButtonElement>) => {
+  const handleOwnGridClick = (x: number, y: number, event?: React.MouseEvent<HTMLButtonElement>) => {
     if (!canTakeAction || !activeAction || !event?.currentTarget) return;
     const targetEl = event.currentTarget;
     if (activeAction.type === 'SKILL') {
         let success = false;
-        if (['Repairship', 'Decoyship'].includes(activeAction.shipType)) {
-             success = await onUseSkill(activeAction.shipType, { x, y });
-        } else if (['Mothership', 'Commandship'].includes(activeAction.shipType) && activeAction.stage === 'PLACE_SHIP') {
-             success = await onUseSkill(activeAction.shipType, { x, y, isHorizontal: isPlacementHorizontal });
+        const placement = { x, y, isHorizontal: isPlacementHorizontal };
+        if (activeAction.shipType === 'Repairship' || activeAction.shipType === 'Decoyship') {
+             success = onUseSkill({ shipType: activeAction.shipType, x, y });
+        } else if (activeAction.shipType === 'Mothership' && activeAction.stage === 'PLACE_SHIP') {
+             success = onUseSkill({ shipType: 'Mothership', placement });
+        } else if (activeAction.shipType === 'Commandship' && activeAction.stage === 'PLACE_SHIP' && activeAction.shipToMove) {
+             success = onUseSkill({ shipType: 'Commandship', shipName: activeAction.shipToMove.name, placement });
         }
         if (success && activeAction.shipType === 'Repairship') {
             const rect = targetEl.getBoundingClientRect();
@@ -402,9 +465,18 @@ const GamePhase: React.FC<GamePhaseProps> = ({
     }
   };
 
-  const handleShipClick = async (ship: Ship) => {
+  // An ally's board is read-only, except as the target of a Repair.
+  const handleAllyGridClick = (allyId: string, x: number, y: number, event?: React.MouseEvent<HTMLButtonElement>) => {
+    if (!canTakeAction || activeAction?.type !== 'SKILL' || activeAction.shipType !== 'Repairship' || !event?.currentTarget) return;
+    const rect = event.currentTarget.getBoundingClientRect();
+    if (onUseSkill({ shipType: 'Repairship', targetId: allyId, x, y })) {
+        setRepairAnimation({ rect, key: Date.now() });
+    }
+  };
+
+  const handleShipClick = (ship: Ship) => {
     if (canTakeAction && activeAction?.type === 'SKILL' && activeAction.shipType === 'Commandship' && activeAction.stage === 'SELECT_SHIP') {
-      onSelectShipForRelocation(ship);
+      onAction({ type: 'SELECT_SHIP', playerId, shipType: 'Commandship', shipName: ship.name });
     }
   };
 
@@ -440,6 +512,11 @@ const GamePhase: React.FC<GamePhaseProps> = ({
     return newGrid;
   }, [localPlayer.grid, localPlayer.decoyPositions]);
 
+  const coachSkill = coachAdvice?.skill;
+  const coachSkillArea = !coachSkill ? [] : coachSkill.shipType === 'Radarship'
+    ? [0, 1].flatMap(dy => [0, 1].map(dx => ({ x: coachSkill.x + dx, y: coachSkill.y + dy })))
+    : [-1, 0, 1].flatMap(dy => [-1, 0, 1].map(dx => ({ x: coachSkill.x + dx, y: coachSkill.y + dy })));
+
   const isOpponentGridDimmed = isMyTurn && activeAction && activeAction.type === 'SKILL' && ['Repairship', 'Decoyship', 'Commandship', 'Mothership'].includes(activeAction.shipType);
   const isOwnGridDimmed = isMyTurn && activeAction && (activeAction.type === 'ATTACK' || (activeAction.type === 'SKILL' && ['Radarship', 'Jamship'].includes(activeAction.shipType)));
 
@@ -448,6 +525,23 @@ const GamePhase: React.FC<GamePhaseProps> = ({
         <div className="bg-slate-900/50 p-2 text-center command-panel-header mb-4">
             <h2 className="text-2xl font-semibold text-white">{`${opponent.name}${opponent.isAI ? ' (AI)' : ''} ${opponent.isEliminated ? '- ELIMINATED' : ''}`}</h2>
         </div>
+        {opponents.length > 1 && (
+          <div className="flex flex-wrap justify-center gap-2 mb-3" role="tablist" aria-label="Target fleet">
+            {opponents.map(p => (
+              <button
+                key={p.id}
+                role="tab"
+                aria-selected={p.id === opponent.id}
+                onClick={() => setSelectedTargetId(p.id)}
+                disabled={p.isEliminated}
+                className={`btn-angular px-3 py-1 text-sm font-bold transition-colors disabled:opacity-40 disabled:line-through ${p.id === opponent.id ? 'selected' : 'bg-slate-700/50 text-slate-300 hover:bg-slate-600/50'}`}
+              >
+                {p.name}
+              </button>
+            ))}
+          </div>
+        )}
+        <div ref={opponentGridRef}>
         <Grid
           grid={localPlayer.shots[opponent.id] || createEmptyGrid(game.gridDimensions.rows, game.gridDimensions.cols)}
           onCellClick={(x, y, e) => handleOpponentGridClick(opponent.id, x, y, e)}
@@ -455,14 +549,43 @@ const GamePhase: React.FC<GamePhaseProps> = ({
           isPlayerTurn={canTakeAction}
           gridDimensions={game.gridDimensions}
           animatedShot={animatedShot?.targetId === opponent.id ? animatedShot : null}
-          radarOverlay={game.radarScanResult?.playerId === localPlayer.id ? game.radarScanResult.results : []}
+          radarOverlay={game.radarScanResult?.playerId === localPlayer.id && (game.radarScanResult.targetId ?? opponent.id) === opponent.id ? game.radarScanResult.results : []}
           jammedOverlay={game.jammedArea?.playerId === opponent.id ? game.jammedArea.coords : []}
           activeAction={activeAction}
           isDimmed={isOpponentGridDimmed}
+          heatmap={coachAdvice?.heatmap}
+          suggestedCell={coachAdvice?.bestShot}
+          suggestedArea={coachSkillArea}
           onCellMouseEnter={(_, __, e) => setHoveredCellEl(e.currentTarget)}
           onCellMouseLeave={() => setHoveredCellEl(null)}
+          coordinateSystem={coordinateSystem}
         />
+        </div>
+        {canTakeAction && (activeAction?.type === 'ATTACK' || activeAction?.shipType === 'Radarship' || activeAction?.shipType === 'Jamship') && (
+          <form onSubmit={handleTypedTarget} className="flex gap-2 mt-3 fade-in">
+            <input
+              type="text"
+              value={typedTarget}
+              onChange={(e) => { setTypedTarget(e.target.value); setTypedTargetError(''); }}
+              placeholder={`> Square, e.g. ${formatCoords({ x: 1, y: 6 }, game.gridDimensions, coordinateSystem)}_`}
+              aria-label="Target square"
+              className="flex-grow min-w-0 px-3 py-1 command-input rounded-sm text-cyan-300 placeholder-slate-500 focus:outline-none transition"
+            />
+            <button type="submit" disabled={!typedTarget.trim()} className="btn-angular bg-slate-700 hover:bg-slate-600 text-slate-200 font-bold px-4 disabled:opacity-50">Target</button>
+          </form>
+        )}
+        {typedTargetError && <p className="text-red-400 text-sm mt-1">{typedTargetError}</p>}
+        {coachAdvice && <CoachPanel advice={coachAdvice} gridDimensions={game.gridDimensions} coordinateSystem={coordinateSystem} />}
         <ShipStatus ships={opponent.ships} isOpponent={true} gameMode={game.gameMode} player={opponent} />
+        {opponents.length > 1 && (
+          <FleetOverview
+            viewer={localPlayer}
+            opponents={opponents}
+            selectedId={opponent.id}
+            gridDimensions={game.gridDimensions}
+            onSelect={setSelectedTargetId}
+          />
+        )}
       </div>
   );
 
@@ -475,6 +598,7 @@ const GamePhase: React.FC<GamePhaseProps> = ({
             grid={playerGrid} 
             ships={localPlayer.ships}
             gridDimensions={game.gridDimensions}
+            coordinateSystem={coordinateSystem}
             activeAction={activeAction}
             isPlayerTurn={canTakeAction}
             onCellClick={handleOwnGridClick}
@@ -496,6 +620,27 @@ const GamePhase: React.FC<GamePhaseProps> = ({
       </div>
   );
   
+  const isRepairArmed = canTakeAction && activeAction?.type === 'SKILL' && activeAction.shipType === 'Repairship';
+  const allyGridContent = allies.map(ally => (
+      <div key={ally.id} className={`grid-container command-panel p-2 sm:p-4 mt-6 transition-all duration-300 ${ally.isEliminated ? 'opacity-70' : ''} ${isRepairArmed && !ally.isEliminated ? 'grid-active-turn' : ''}`}>
+        <div className="bg-slate-900/50 p-2 text-center command-panel-header mb-4">
+            <h2 className="text-xl font-semibold text-white">{`${ally.name} (Ally${ally.teamId ? `, Team ${ally.teamId}` : ''})${ally.isEliminated ? ' - ELIMINATED' : ''}`}</h2>
+        </div>
+        <Grid
+            grid={ally.grid}
+            ships={ally.ships}
+            gridDimensions={game.gridDimensions}
+            coordinateSystem={coordinateSystem}
+            activeAction={isRepairArmed ? activeAction : null}
+            isPlayerTurn={isRepairArmed}
+            onCellClick={(x, y, e) => handleAllyGridClick(ally.id, x, y, e)}
+            isDimmed={!isRepairArmed}
+            gameMode={game.gameMode}
+        />
+        <ShipStatus ships={ally.ships} player={ally} grid={ally.grid} gameMode={game.gameMode} />
+      </div>
+  ));
+
   const centerHubContent = (
       <div className="flex-1 flex justify-center items-center px-2 min-h-[80px]">
            {isMyTurn && !isAnimating.current && !game.hasActedThisTurn && game.gameMode === 'TACTICAL' && (
@@ -559,7 +704,10 @@ const GamePhase: React.FC<GamePhaseProps> = ({
               {viewMode === 'desktop' && centerHubContent}
 
               <div className="flex items-center gap-2 flex-shrink-0">
-                  <GameLog log={game.log} players={game.players} currentUserId={playerId} gameMode={game.gameMode} />
+                  <GameLog log={game.log} players={game.players} currentUserId={playerId} gameMode={game.gameMode} gridDimensions={game.gridDimensions} coordinateSystem={coordinateSystem} />
+                  {showAIReasoning && game.players.some(p => p.isAI) && (
+                      <AIReasoningPanel decisions={game.aiDecisions ?? []} gridDimensions={game.gridDimensions} coordinateSystem={coordinateSystem} />
+                  )}
                   {game.gameMode === 'TACTICAL' && (
                       <button
                           onClick={() => setIsHelpOpen(true)}
@@ -576,6 +724,32 @@ const GamePhase: React.FC<GamePhaseProps> = ({
                   >
                       {viewMode === 'desktop' ? <MobileIcon className="w-6 h-6" /> : <DesktopIcon className="w-6 h-6" />}
                   </button>
+                  <button
+                      onClick={() => setIsCoachOn(on => !on)}
+                      className={`btn-angular p-3 ${isCoachOn ? 'selected' : 'bg-slate-700/50 hover:bg-slate-600/50 text-slate-200'}`}
+                      aria-label={isCoachOn ? "Turn Coach Off" : "Turn Coach On"}
+                      aria-pressed={isCoachOn}
+                      title="Coach: shows where enemy ships are likely to be and suggests your next move"
+                  >
+                      <CoachIcon className="w-6 h-6" />
+                  </button>
+                  <button
+                      onClick={onOpenSettings}
+                      className="btn-angular bg-slate-700/50 hover:bg-slate-600/50 text-slate-200 p-3"
+                      aria-label="Open Settings"
+                  >
+                      <SettingsIcon className="w-6 h-6" />
+                  </button>
+                  {onExportGame && (
+                      <button
+                          onClick={onExportGame}
+                          className="btn-angular bg-slate-700/50 hover:bg-slate-600/50 text-slate-200 p-3"
+                          aria-label="Export Game"
+                          title="Export game"
+                      >
+                          <DownloadIcon className="w-6 h-6" />
+                      </button>
+                  )}
                   <button
                       onClick={toggleFullscreen}
                       className="btn-angular bg-slate-700/50 hover:bg-slate-600/50 text-slate-200 p-3"
@@ -597,7 +771,7 @@ const GamePhase: React.FC<GamePhaseProps> = ({
           <div className="main-game-layout flex flex-col lg:flex-row gap-6 mt-2">
               {viewMode === 'desktop' ? (
                   <>
-                      <div className="lg:w-1/2">{playerGridContent}</div>
+                      <div className="lg:w-1/2">{playerGridContent}{allyGridContent}</div>
                       <div className="lg:w-1/2">{opponentGridContent}</div>
                   </>
               ) : (
@@ -605,6 +779,7 @@ const GamePhase: React.FC<GamePhaseProps> = ({
                       {opponentGridContent}
                       {centerHubContent}
                       {playerGridContent}
+                      {allyGridContent}
                   </>
               )}
           </div>
@@ -613,7 +788,7 @@ const GamePhase: React.FC<GamePhaseProps> = ({
       <ConfirmationModal
         isOpen={isSurrenderModalOpen}
         onConfirm={() => {
-          onSurrender();
+          onAction({ type: 'SURRENDER', playerId });
           setIsSurrenderModalOpen(false);
         }}
         onCancel={() => setIsSurrenderModalOpen(false)}
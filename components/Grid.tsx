@@ -1,5 +1,6 @@
 import React, { useMemo, useRef, useEffect, useState } from 'react';
-import { CellState, Grid as GridType, Ship, GameLogEntry, GameMode } from '../types';
+import { CellState, Grid as GridType, Ship, GameLogEntry, GameMode, ActiveAction, CoordinateSystem } from '../types';
+import { formatColumn, formatCoords, formatRow } from '../services/coordinates';
 import ExplosionIcon from './icons/ExplosionIcon';
 import WaterIcon from './icons/WaterIcon';
 import MothershipIcon from './icons/MothershipIcon';
@@ -34,10 +35,15 @@ interface GridProps {
   // Tactical Mode Props
   radarOverlay?: { x: number; y: number; state: CellState }[];
   jammedOverlay?: { x: number; y: number }[];
-  activeAction?: any;
+  activeAction?: ActiveAction | null;
   onShipPartClick?: (ship: Ship) => void;
   isDimmed?: boolean;
 
+  // Coach overlay, opponent grid only
+  heatmap?: number[][]; // 0-1 per square, shaded relative to the hottest square
+  suggestedCell?: { x: number; y: number } | null;
+  suggestedArea?: { x: number; y: number }[];
+
   // Props for setup phase or commandship relocate
   isSetup?: boolean;
   onCellMouseEnter?: (x: number, y: number, event: React.MouseEvent<HTMLButtonElement>) => void;
@@ -55,6 +61,7 @@ interface GridProps {
   isPlayerGrid?: boolean;
   hoveredCellEl?: HTMLElement | null;
   gameMode?: GameMode;
+  coordinateSystem: CoordinateSystem;
 }
 
 const ShipTypeIcon: React.FC<{type: string, className?: string, style?: React.CSSProperties}> = ({ type, className, style }) => {
@@ -91,11 +98,15 @@ const Grid: React.FC<GridProps> = ({
     activeAction,
     onShipPartClick,
     isDimmed,
+    heatmap,
+    suggestedCell,
+    suggestedArea = [],
     mothershipRef,
     cannonTipRef,
     isPlayerGrid,
     hoveredCellEl,
     gameMode,
+    coordinateSystem,
 }) => {
   const cannonBarrelRef = useRef<HTMLDivElement>(null);
   const mothershipBowRef = useRef<HTMLDivElement>(null);
@@ -198,7 +209,9 @@ const Grid: React.FC<GridProps> = ({
     }
   };
   
-  const headers = Array.from({ length: gridDimensions.cols }, (_, i) => String.fromCharCode(65 + i));
+  const maxHeat = useMemo(() => heatmap ? Math.max(0, ...heatmap.flat()) : 0, [heatmap]);
+
+  const headers = Array.from({ length: gridDimensions.cols }, (_, i) => formatColumn(i, coordinateSystem));
   const gridStyle = {
     gridTemplateColumns: `min-content repeat(${gridDimensions.cols}, minmax(0, 1fr))`
   };
@@ -221,7 +234,7 @@ const Grid: React.FC<GridProps> = ({
         
         {grid.map((row, y) => (
           <React.Fragment key={y}>
-            <div className="flex items-center justify-center text-slate-400">{y + 1}</div>
+            <div className="flex items-center justify-center text-slate-400">{formatRow(y, gridDimensions, coordinateSystem)}</div>
             {row.map((cell, x) => {
               const shipPart = shipMap.get(`${x},${y}`);
               const isFlagshipBow = flagship && shipPart?.ship.name === flagship.name && shipPart.partIndex === 0;
@@ -232,6 +245,9 @@ const Grid: React.FC<GridProps> = ({
               const isJammed = jammedOverlay.some(c => c.x === x && c.y === y);
               const isGlitching = glitchingCell?.x === x && glitchingCell?.y === y;
               const displayCellState = radarOverlayCell ? radarOverlayCell.state : cell;
+              const heat = isOpponentGrid && maxHeat > 0 ? (heatmap?.[y]?.[x] ?? 0) / maxHeat : 0;
+              const isSuggested = isOpponentGrid && suggestedCell?.x === x && suggestedCell?.y === y;
+              const isInSuggestedArea = isOpponentGrid && suggestedArea.some(c => c.x === x && c.y === y);
 
               let isDisabled = !onCellClick || (isSetup && cell === CellState.SHIP);
 
@@ -306,8 +322,12 @@ const Grid: React.FC<GridProps> = ({
                   onDrop={(e) => { e.preventDefault(); onCellDrop && onCellDrop(x,y); }}
                   onDragOver={(e) => onCellDragOver && onCellDragOver(e, x, y)}
                   disabled={isDisabled || isDimmed}
-                  aria-label={`Cell ${headers[x]}${y + 1}, state: ${cell}`}
+                  aria-label={`Cell ${formatCoords({ x, y }, gridDimensions, coordinateSystem)}, state: ${cell}`}
+                  data-cell={`${x},${y}`}
                 >
+                  {heat > 0 && <div className="absolute inset-0 bg-amber-400 pointer-events-none" style={{ opacity: 0.55 * heat }} />}
+                  {isInSuggestedArea && <div className="absolute inset-0 border-2 border-dashed border-cyan-300/80 pointer-events-none z-10" />}
+                  {isSuggested && <div className="absolute inset-0 ring-2 ring-inset ring-amber-200 animate-pulse pointer-events-none z-10" />}
                   {isJammed && <JamOverlay className="absolute inset-0 w-full h-full opacity-70 z-20 pointer-events-none" />}
                   {isGlitching && <div
                     className="absolute inset-0 electric-cell-effect z-20 pointer-events-none"
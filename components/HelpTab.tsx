@@ -75,7 +75,7 @@ const HelpTab: React.FC<HelpTabProps> = ({ isOpen, onClose }) => {
                 <div className="p-6 overflow-y-auto space-y-6">
                     <div className="text-center bg-slate-900/50 p-3 rounded-lg">
                         <h3 className="text-xl font-bold text-yellow-400">Objective</h3>
-                        <p className="text-slate-300">Be the first to find and sink the opponent's <strong>Mothership</strong>.</p>
+                        <p className="text-slate-300">Be the first to find and sink the opponent's <strong>Mothership</strong>. With three or four fleets, a fleet is out once its Mothership sinks, and the last Mothership afloat wins. Pick the fleet to attack, scan or jam with the target buttons above the enemy grid. In a 2v2 team game, allies share every hit and radar contact, may repair each other's ships, and a team wins once both enemy fleets are out; a fallen ally's turns are played by their teammate.</p>
                     </div>
                     <div className="bg-slate-900/50 p-3 rounded-lg">
                         <h3 className="text-xl font-bold text-slate-200 mb-3">Core Combat Rules</h3>
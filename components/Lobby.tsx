@@ -1,19 +1,57 @@
-import React, { useState, useCallback, useEffect } from 'react';
-import { GameMode } from '../types';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import { AIDifficulty, GameConfig, GameMode, SavedGame, SavedGameSummary, SeatConfig, ShipConfig } from '../types';
 import FullscreenIcon from './icons/FullscreenIcon';
+import SettingsIcon from './icons/SettingsIcon';
 import Spinner from './Spinner';
+import OnlinePanel from './OnlinePanel';
+import { listSavedGames, deleteSavedGame } from '../services/storageService';
+import { parseGameFile } from '../services/gameFile';
+import { getAddableShips, validateGameConfig } from '../services/customRules';
+import { DEFAULT_AI_STRATEGY_ID, getAIStrategy, listAIStrategies } from '../services/aiStrategies';
+import { getGameConfig, MAX_GRID_SIZE, MAX_SHIP_LENGTH, MIN_GRID_SIZE } from '../constants';
+
+const MAX_FLEETS = 4;
+// In 2v2 games seats alternate between the teams, so turns alternate between them too.
+const TEAM_IDS = ['Alpha', 'Bravo'];
+const AI_DIFFICULTIES: { level: AIDifficulty; label: string }[] = [
+  { level: 'EASY', label: 'Easy' },
+  { level: 'NORMAL', label: 'Normal' },
+  { level: 'HARD', label: 'Hard' },
+  { level: 'EXPERT', label: 'Expert' },
+];
+
+const defaultSeatName = (index: number, isAI: boolean) =>
+  isAI ? (index === 1 ? 'Gemini AI' : `Gemini AI ${index}`) : `Player ${index + 1}`;
+
+// A fresh copy of a mode's standard fleet, for the fleet builder to edit.
+const defaultFleet = (mode: GameMode): ShipConfig[] => getGameConfig(mode).shipsConfig.map(ship => ({ ...ship }));
 
 interface LobbyProps {
-  onCreateGame: (playerName: string, gameMode: GameMode, opponentType: 'AI' | 'Human', player2Name?: string) => void;
+  onCreateGame: (seats: SeatConfig[], gameMode: GameMode, seed?: string, customRules?: GameConfig) => void;
+  onResumeGame: (gameId: string) => void;
+  onImportGame: (save: SavedGame) => void;
+  onOpenSettings: () => void;
+  onHostOnlineGame: (serverUrl: string, playerName: string, gameMode: GameMode, customRules?: GameConfig) => void;
+  onJoinOnlineGame: (serverUrl: string, roomCode: string, playerName: string) => void;
+  onWatchLocalGame: (gameId: string) => void;
+  onWatchOnlineGame: (serverUrl: string, roomCode: string, spectatorName: string) => void;
 }
 
-const Lobby: React.FC<LobbyProps> = ({ onCreateGame }) => {
+const Lobby: React.FC<LobbyProps> = ({ onCreateGame, onResumeGame, onImportGame, onOpenSettings, onHostOnlineGame, onJoinOnlineGame, onWatchLocalGame, onWatchOnlineGame }) => {
   const [gameMode, setGameMode] = useState<GameMode>('TACTICAL');
   const [error, setError] = useState('');
   const [isLoading, setIsLoading] = useState(false);
-  const [playerName, setPlayerName] = useState('Player 1');
-  const [player2Name, setPlayer2Name] = useState('Player 2');
-  const [opponentType, setOpponentType] = useState<'AI' | 'Human'>('AI');
+  const [seats, setSeats] = useState<SeatConfig[]>(() =>
+    Array.from({ length: MAX_FLEETS }, (_, i) => ({ name: defaultSeatName(i, i > 0), isAI: i > 0 }))
+  );
+  const [fleetCount, setFleetCount] = useState(2);
+  const [wantsTeams, setWantsTeams] = useState(false);
+  const [seed, setSeed] = useState('');
+  const [useCustomRules, setUseCustomRules] = useState(false);
+  const [customRules, setCustomRules] = useState<GameConfig>(() => getGameConfig('TACTICAL'));
+  const [savedGames, setSavedGames] = useState<SavedGameSummary[]>(() => listSavedGames());
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const [isFullscreen, setIsFullscreen] = useState(!!document.fullscreenElement);
 
   const toggleFullscreen = useCallback(() => {
@@ -31,29 +69,103 @@ const Lobby: React.FC<LobbyProps> = ({ onCreateGame }) => {
     return () => document.removeEventListener('fullscreenchange', onFullscreenChange);
   }, []);
 
+  const isTeamGame = wantsTeams && fleetCount === 4;
+  const activeSeats = seats.slice(0, fleetCount).map((seat, i) => isTeamGame ? { ...seat, teamId: TEAM_IDS[i % 2] } : seat);
+  const humanCount = activeSeats.filter(seat => !seat.isAI).length;
+  const ruleErrors = useCustomRules ? validateGameConfig(customRules, gameMode) : [];
+  const addableShips = getAddableShips(gameMode, customRules.shipsConfig);
+
+  // Each mode has its own kinds of ship, so switching modes starts the fleet builder over from that mode's fleet.
+  const selectGameMode = (mode: GameMode) => {
+    if (mode === gameMode) return;
+    setGameMode(mode);
+    setCustomRules(prev => ({ ...prev, shipsConfig: defaultFleet(mode) }));
+  };
+
+  const getChosenRules = (): GameConfig | undefined =>
+    useCustomRules ? { ...customRules, shipsConfig: customRules.shipsConfig.map(ship => ({ ...ship, name: ship.name.trim() })) } : undefined;
+
+  const updateGridSize = (dimension: 'rows' | 'cols', value: number) => {
+    setCustomRules(prev => ({ ...prev, gridDimensions: { ...prev.gridDimensions, [dimension]: value } }));
+  };
+
+  const updateShip = (index: number, changes: Partial<ShipConfig>) => {
+    setCustomRules(prev => ({ ...prev, shipsConfig: prev.shipsConfig.map((ship, i) => i === index ? { ...ship, ...changes } : ship) }));
+  };
+
+  const removeShip = (index: number) => {
+    setCustomRules(prev => ({ ...prev, shipsConfig: prev.shipsConfig.filter((_, i) => i !== index) }));
+  };
+
+  const addShip = (ship: ShipConfig) => {
+    setCustomRules(prev => ({ ...prev, shipsConfig: [...prev.shipsConfig, ship] }));
+  };
+
+  const updateSeat = (index: number, changes: Partial<SeatConfig>) => {
+    setSeats(prev => prev.map((seat, i) => {
+      if (i !== index) return seat;
+      const updated = { ...seat, ...changes };
+      // Swap a default name for the matching default when the seat changes hands.
+      if (changes.isAI !== undefined && seat.name === defaultSeatName(i, seat.isAI)) {
+        updated.name = defaultSeatName(i, updated.isAI);
+      }
+      return updated;
+    }));
+  };
+
   const handleCreateGame = () => {
-    if (!playerName.trim()) {
-      setError('Player 1 name cannot be empty.');
+    const emptySeat = activeSeats.findIndex(seat => !seat.name.trim());
+    if (emptySeat !== -1) {
+      setError(`Commander ${emptySeat + 1} name cannot be empty.`);
       return;
     }
-    if (opponentType === 'Human' && !player2Name.trim()) {
-      setError('Player 2 name cannot be empty.');
+    const names = activeSeats.map(seat => seat.name.trim());
+    if (new Set(names).size !== names.length) {
+      setError('Commander names must be unique.');
       return;
     }
-     if (opponentType === 'Human' && playerName.trim() === player2Name.trim()) {
-      setError('Player names must be unique.');
+    if (ruleErrors.length > 0) {
+      setError('Fix the custom rules before deploying.');
       return;
     }
     setError('');
     setIsLoading(true);
+    const rules = getChosenRules();
     setTimeout(() => {
-        onCreateGame(playerName, gameMode, opponentType, opponentType === 'Human' ? player2Name : undefined);
+        onCreateGame(activeSeats, gameMode, seed.trim() || undefined, rules);
     }, 200);
   };
   
+  const handleHostOnline = (serverUrl: string, playerName: string) => {
+    if (ruleErrors.length > 0) {
+      setError('Fix the custom rules before hosting.');
+      return;
+    }
+    setError('');
+    onHostOnlineGame(serverUrl, playerName, gameMode, getChosenRules());
+  };
+
+  const handleDeleteSave = (gameId: string) => {
+    deleteSavedGame(gameId);
+    setSavedGames(listSavedGames());
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const result = parseGameFile(await file.text());
+    if (result.success === false) {
+      setImportErrors(result.errors);
+      return;
+    }
+    setImportErrors([]);
+    onImportGame(result.save);
+  };
+
   const getGameModeDescription = () => {
-      if (gameMode === 'TACTICAL') return "1v1 strategic combat. Sink the enemy Mothership to win using unique ship skills.";
-      return "The original naval combat game. Place your ships and be the last fleet standing.";
+      if (gameMode === 'TACTICAL') return "Strategic combat for 2-4 fleets. Sink enemy Motherships using unique ship skills; the last Mothership afloat wins.";
+      return "The original naval combat game for 2-4 fleets. Place your ships and be the last fleet standing.";
   }
 
   return (
@@ -66,6 +178,13 @@ const Lobby: React.FC<LobbyProps> = ({ onCreateGame }) => {
       >
         <FullscreenIcon className="w-6 h-6" isFullscreen={isFullscreen} />
       </button>
+      <button
+        onClick={onOpenSettings}
+        className="absolute top-4 right-20 p-3 bg-slate-800/50 hover:bg-slate-700/50 rounded-full text-slate-200 transition-colors z-20"
+        aria-label="Open Settings"
+      >
+        <SettingsIcon className="w-6 h-6" />
+      </button>
 
       <div className="w-full max-w-lg space-y-6 relative z-10">
         <div className="text-center">
@@ -82,48 +201,184 @@ const Lobby: React.FC<LobbyProps> = ({ onCreateGame }) => {
 
             {error && <p className="text-red-400 text-center bg-red-900/50 p-3 rounded-md">{error}</p>}
             
-             <div>
-              <label className="block text-slate-300 mb-2 text-lg text-center font-semibold tracking-wider">Opponent:</label>
-              <div className="grid grid-cols-2 gap-3">
-                  <button onClick={() => setOpponentType('AI')} className={`btn-angular py-3 text-lg font-bold transition-colors ${opponentType === 'AI' ? 'selected' : 'bg-slate-700/50 text-slate-300 hover:bg-slate-600/50'}`}>vs. AI</button>
-                  <button onClick={() => setOpponentType('Human')} className={`btn-angular py-3 text-lg font-bold transition-colors ${opponentType === 'Human' ? 'selected' : 'bg-slate-700/50 text-slate-300 hover:bg-slate-600/50'}`}>vs. Player</button>
+            <div>
+              <label className="block text-slate-300 mb-2 text-lg text-center font-semibold tracking-wider">Fleets:</label>
+              <div className="grid grid-cols-3 gap-3">
+                  {[2, 3, 4].map(count => (
+                    <button
+                      key={count}
+                      onClick={() => setFleetCount(count)}
+                      className={`btn-angular py-2 text-lg font-bold transition-colors ${fleetCount === count ? 'selected' : 'bg-slate-700/50 text-slate-300 hover:bg-slate-600/50'}`}
+                    >
+                      {count}
+                    </button>
+                  ))}
               </div>
+              {fleetCount === 4 && (
+                <div className="grid grid-cols-2 gap-3 mt-3 fade-in">
+                  <button onClick={() => setWantsTeams(false)} className={`btn-angular py-2 font-bold transition-colors ${!isTeamGame ? 'selected' : 'bg-slate-700/50 text-slate-300 hover:bg-slate-600/50'}`}>Free-for-all</button>
+                  <button onClick={() => setWantsTeams(true)} className={`btn-angular py-2 font-bold transition-colors ${isTeamGame ? 'selected' : 'bg-slate-700/50 text-slate-300 hover:bg-slate-600/50'}`}>2v2 Teams</button>
+                </div>
+              )}
             </div>
 
-            <div>
-              <label htmlFor="player_name" className="block text-slate-300 mb-1 text-sm tracking-wider">{opponentType === 'Human' ? 'Player 1 Callsign:' : 'Your Callsign:'}</label>
-              <input
-                id="player_name"
-                type="text"
-                value={playerName}
-                onChange={(e) => setPlayerName(e.target.value)}
-                placeholder="> Enter Callsign_"
-                className="w-full px-4 py-2 command-input rounded-sm text-cyan-300 text-2xl placeholder-slate-500 focus:outline-none transition"
-              />
+            <div className="space-y-3">
+              {activeSeats.map((seat, index) => (
+                <div key={index} className="fade-in">
+                  <div className="flex items-center justify-between mb-1">
+                    <label htmlFor={`seat_name_${index}`} className="block text-slate-300 text-sm tracking-wider">
+                      {index === 0 && humanCount === 1 ? 'Your Callsign:' : `Commander ${index + 1} Callsign:`}
+                      {seat.teamId && <span className={`ml-2 text-xs font-bold ${seat.teamId === TEAM_IDS[0] ? 'text-cyan-300' : 'text-orange-300'}`}>Team {seat.teamId}</span>}
+                    </label>
+                    {index > 0 && (
+                      <div className="flex gap-1">
+                        <button onClick={() => updateSeat(index, { isAI: false })} className={`btn-angular px-3 py-0.5 text-xs font-bold ${!seat.isAI ? 'selected' : 'bg-slate-700/50 text-slate-300 hover:bg-slate-600/50'}`}>Human</button>
+                        <button onClick={() => updateSeat(index, { isAI: true })} className={`btn-angular px-3 py-0.5 text-xs font-bold ${seat.isAI ? 'selected' : 'bg-slate-700/50 text-slate-300 hover:bg-slate-600/50'}`}>AI</button>
+                      </div>
+                    )}
+                  </div>
+                  <input
+                    id={`seat_name_${index}`}
+                    type="text"
+                    value={seat.name}
+                    onChange={(e) => updateSeat(index, { name: e.target.value })}
+                    placeholder="> Enter Callsign_"
+                    className={`w-full px-4 py-2 command-input rounded-sm text-cyan-300 placeholder-slate-500 focus:outline-none transition ${index === 0 ? 'text-2xl' : 'text-xl'}`}
+                  />
+                  {seat.isAI && (
+                    <div className="grid grid-cols-4 gap-1 mt-1" role="radiogroup" aria-label={`Commander ${index + 1} difficulty`}>
+                      {AI_DIFFICULTIES.map(({ level, label }) => {
+                        const isSelected = (seat.difficulty ?? 'NORMAL') === level;
+                        return (
+                          <button
+                            key={level}
+                            role="radio"
+                            aria-checked={isSelected}
+                            onClick={() => updateSeat(index, { difficulty: level })}
+                            className={`btn-angular py-0.5 text-xs font-bold ${isSelected ? 'selected' : 'bg-slate-700/50 text-slate-300 hover:bg-slate-600/50'}`}
+                          >
+                            {label}
+                          </button>
+                        );
+                      })}
+                    </div>
+                  )}
+                  {seat.isAI && (
+                    <select
+                      aria-label={`Commander ${index + 1} strategy`}
+                      value={seat.strategyId ?? DEFAULT_AI_STRATEGY_ID}
+                      onChange={(e) => updateSeat(index, { strategyId: e.target.value })}
+                      title={getAIStrategy(seat.strategyId).description}
+                      className="w-full mt-1 px-2 py-1 command-input rounded-sm text-xs text-cyan-300 focus:outline-none"
+                    >
+                      {listAIStrategies().map(strategy => (
+                        <option key={strategy.id} value={strategy.id}>Strategy: {strategy.name}</option>
+                      ))}
+                    </select>
+                  )}
+                </div>
+              ))}
             </div>
 
-            {opponentType === 'Human' && (
-              <div className="fade-in">
-                <label htmlFor="player2_name" className="block text-slate-300 mb-1 text-sm tracking-wider">Player 2 Callsign:</label>
-                <input
-                  id="player2_name"
-                  type="text"
-                  value={player2Name}
-                  onChange={(e) => setPlayer2Name(e.target.value)}
-                  placeholder="> Enter Callsign_"
-                  className="w-full px-4 py-2 command-input rounded-sm text-cyan-300 text-2xl placeholder-slate-500 focus:outline-none transition"
-                />
-              </div>
-            )}
-
             <div>
               <label className="block text-slate-300 mb-2 text-lg text-center font-semibold tracking-wider">Game Mode:</label>
               <div className="grid grid-cols-2 gap-3">
-                  <button onClick={() => setGameMode('CLASSIC')} className={`btn-angular py-3 text-lg font-bold transition-colors ${gameMode === 'CLASSIC' ? 'selected' : 'bg-slate-700/50 text-slate-300 hover:bg-slate-600/50'}`}>Classic</button>
-                  <button onClick={() => setGameMode('TACTICAL')} className={`btn-angular py-3 text-lg font-bold transition-colors ${gameMode === 'TACTICAL' ? 'selected' : 'bg-slate-700/50 text-slate-300 hover:bg-slate-600/50'}`}>Tactical</button>
+                  <button onClick={() => selectGameMode('CLASSIC')} className={`btn-angular py-3 text-lg font-bold transition-colors ${gameMode === 'CLASSIC' ? 'selected' : 'bg-slate-700/50 text-slate-300 hover:bg-slate-600/50'}`}>Classic</button>
+                  <button onClick={() => selectGameMode('TACTICAL')} className={`btn-angular py-3 text-lg font-bold transition-colors ${gameMode === 'TACTICAL' ? 'selected' : 'bg-slate-700/50 text-slate-300 hover:bg-slate-600/50'}`}>Tactical</button>
               </div>
             </div>
              <p className="text-center text-xs text-slate-400 mt-1 px-2 min-h-[40px] flex items-center justify-center">{getGameModeDescription()}</p>
+
+            <div>
+              <button
+                onClick={() => setUseCustomRules(prev => !prev)}
+                className={`w-full btn-angular py-2 font-bold transition-colors ${useCustomRules ? 'selected' : 'bg-slate-700/50 text-slate-300 hover:bg-slate-600/50'}`}
+              >
+                Custom rules: {useCustomRules ? 'On' : 'Off'}
+              </button>
+              {useCustomRules && (
+                <div className="mt-3 space-y-3 bg-slate-900/40 p-3 fade-in">
+                  <div className="grid grid-cols-2 gap-3">
+                    {(['cols', 'rows'] as const).map(dimension => (
+                      <div key={dimension}>
+                        <label htmlFor={`grid_${dimension}`} className="block text-slate-300 mb-1 text-sm tracking-wider">{dimension === 'cols' ? 'Columns:' : 'Rows:'}</label>
+                        <input
+                          id={`grid_${dimension}`}
+                          type="number"
+                          min={MIN_GRID_SIZE}
+                          max={MAX_GRID_SIZE}
+                          value={Number.isNaN(customRules.gridDimensions[dimension]) ? '' : customRules.gridDimensions[dimension]}
+                          onChange={(e) => updateGridSize(dimension, e.target.valueAsNumber)}
+                          className="w-full px-3 py-1 command-input rounded-sm text-cyan-300 text-lg focus:outline-none transition"
+                        />
+                      </div>
+                    ))}
+                  </div>
+
+                  <div>
+                    <p className="text-slate-300 mb-1 text-sm tracking-wider">Fleet:</p>
+                    <ul className="space-y-1.5">
+                      {customRules.shipsConfig.map((ship, index) => (
+                        <li key={index} className="flex items-center gap-2">
+                          {gameMode === 'CLASSIC' ? (
+                            <input
+                              type="text"
+                              value={ship.name}
+                              onChange={(e) => updateShip(index, { name: e.target.value })}
+                              aria-label={`Ship ${index + 1} name`}
+                              className="flex-grow min-w-0 px-2 py-0.5 command-input rounded-sm text-cyan-300 focus:outline-none transition"
+                            />
+                          ) : (
+                            <span className="flex-grow text-cyan-300">{ship.name}</span>
+                          )}
+                          <button onClick={() => updateShip(index, { length: ship.length - 1 })} disabled={ship.length <= 1} className="btn-angular bg-slate-700/50 hover:bg-slate-600/50 text-slate-200 font-bold px-2 disabled:opacity-40" aria-label={`Shorten ${ship.name}`}>-</button>
+                          <span className="w-6 text-center font-mono text-slate-200">{ship.length}</span>
+                          <button onClick={() => updateShip(index, { length: ship.length + 1 })} disabled={ship.length >= MAX_SHIP_LENGTH} className="btn-angular bg-slate-700/50 hover:bg-slate-600/50 text-slate-200 font-bold px-2 disabled:opacity-40" aria-label={`Lengthen ${ship.name}`}>+</button>
+                          <button
+                            onClick={() => removeShip(index)}
+                            disabled={gameMode === 'TACTICAL' && ship.type === 'Mothership'}
+                            className="btn-angular bg-slate-700/50 hover:bg-red-700/50 text-slate-300 text-xs font-bold px-2 py-0.5 disabled:opacity-40"
+                            aria-label={`Remove ${ship.name}`}
+                          >
+                            Remove
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                    <div className="flex flex-wrap gap-2 mt-2">
+                      {addableShips.map(ship => (
+                        <button key={ship.name} onClick={() => addShip(ship)} className="btn-angular bg-slate-700/50 hover:bg-slate-600/50 text-slate-200 text-xs font-bold px-3 py-1">+ {ship.name}</button>
+                      ))}
+                      <button
+                        onClick={() => setCustomRules(getGameConfig(gameMode))}
+                        className="btn-angular bg-slate-700/50 hover:bg-slate-600/50 text-slate-300 text-xs font-bold px-3 py-1 ml-auto"
+                      >
+                        Reset
+                      </button>
+                    </div>
+                  </div>
+
+                  {ruleErrors.length > 0 && (
+                    <ul className="text-red-300 bg-red-900/50 p-2 rounded-md text-xs list-disc list-inside space-y-0.5 fade-in">
+                      {ruleErrors.map(err => <li key={err}>{err}</li>)}
+                    </ul>
+                  )}
+                </div>
+              )}
+            </div>
+
+            <div>
+              <label htmlFor="game_seed" className="block text-slate-300 mb-1 text-sm tracking-wider">Seed (optional):</label>
+              <input
+                id="game_seed"
+                type="text"
+                value={seed}
+                onChange={(e) => setSeed(e.target.value)}
+                placeholder="> Random_"
+                className="w-full px-4 py-2 command-input rounded-sm text-cyan-300 text-lg placeholder-slate-500 focus:outline-none transition"
+              />
+              <p className="text-xs text-slate-500 mt-1">Games with the same seed and the same moves play out identically.</p>
+            </div>
             
             <button
               onClick={handleCreateGame}
@@ -132,7 +387,47 @@ const Lobby: React.FC<LobbyProps> = ({ onCreateGame }) => {
             >
               {isLoading ? <div className="flex items-center justify-center gap-3"><Spinner /> INITIATING...</div> : 'DEPLOY FLEET'}
             </button>
+
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="w-full btn-angular bg-slate-700/50 hover:bg-slate-600/50 text-slate-200 font-bold py-2 text-lg"
+            >
+              Import Game
+            </button>
+            <input ref={fileInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleImportFile} />
+            {importErrors.length > 0 && (
+              <div className="text-red-300 bg-red-900/50 p-3 rounded-md text-sm fade-in">
+                <p className="font-semibold mb-1">This game file can't be imported:</p>
+                <ul className="list-disc list-inside space-y-0.5 font-mono text-xs break-all">
+                  {importErrors.map(err => <li key={err}>{err}</li>)}
+                </ul>
+              </div>
+            )}
         </div>
+
+        <OnlinePanel gameMode={gameMode} defaultName={seats[0].name} onHost={handleHostOnline} onJoin={onJoinOnlineGame} onWatch={onWatchOnlineGame} />
+
+        {savedGames.length > 0 && (
+          <div className="command-panel p-6 space-y-3 fade-in">
+            <div className="bg-slate-900/50 p-2 text-center command-panel-header">
+                <h2 className="text-2xl font-semibold text-white">Resume Engagement</h2>
+            </div>
+            <ul className="space-y-2">
+              {savedGames.map(save => (
+                <li key={save.gameId} className="flex items-center gap-3 bg-slate-900/40 p-3">
+                  <div className="flex-grow min-w-0">
+                    <p className="text-cyan-300 font-semibold truncate">{save.playerNames.join(' vs. ')}</p>
+                    <p className="text-xs text-slate-400">{save.gameMode === 'TACTICAL' ? 'Tactical' : 'Classic'} · Turn {save.turn} · {new Date(save.savedAt).toLocaleString()}</p>
+                  </div>
+                  <button onClick={() => onResumeGame(save.gameId)} className="btn-angular btn-indigo text-white font-bold py-2 px-4">Resume</button>
+                  <button onClick={() => onWatchLocalGame(save.gameId)} className="btn-angular bg-slate-700/50 hover:bg-slate-600/50 text-slate-200 font-bold py-2 px-3">Watch</button>
+                  <button onClick={() => handleDeleteSave(save.gameId)} className="btn-angular bg-slate-700/50 hover:bg-red-700/50 text-slate-300 font-bold py-2 px-3" aria-label="Delete save">Delete</button>
+                </li>
+              ))}
+            </ul>
+            <p className="text-xs text-slate-500">Watch follows a game while it is played in another tab or window of this browser, without taking part, e.g. to stream it.</p>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { GameMode } from '../types';
+import { getDefaultServerUrl } from '../services/realtimeService';
+
+interface OnlinePanelProps {
+  gameMode: GameMode;
+  defaultName: string;
+  onHost: (serverUrl: string, playerName: string) => void;
+  onJoin: (serverUrl: string, roomCode: string, playerName: string) => void;
+  onWatch: (serverUrl: string, roomCode: string, spectatorName: string) => void;
+}
+
+const OnlinePanel: React.FC<OnlinePanelProps> = ({ gameMode, defaultName, onHost, onJoin, onWatch }) => {
+  const [serverUrl, setServerUrl] = useState(getDefaultServerUrl);
+  const [playerName, setPlayerName] = useState(defaultName);
+  const [roomCode, setRoomCode] = useState('');
+  const [error, setError] = useState('');
+
+  const checkFields = (): boolean => {
+    if (!serverUrl.trim()) {
+      setError('Enter the game server address.');
+      return false;
+    }
+    if (!playerName.trim()) {
+      setError('Enter your callsign.');
+      return false;
+    }
+    setError('');
+    return true;
+  };
+
+  const handleHost = () => {
+    if (checkFields()) onHost(serverUrl.trim(), playerName.trim());
+  };
+
+  const checkRoomCode = (message: string): boolean => {
+    if (!checkFields()) return false;
+    if (!roomCode.trim()) {
+      setError(message);
+      return false;
+    }
+    return true;
+  };
+
+  const handleJoin = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (checkRoomCode('Enter the room code your opponent shared.')) onJoin(serverUrl.trim(), roomCode.trim().toUpperCase(), playerName.trim());
+  };
+
+  const handleWatch = () => {
+    if (checkRoomCode('Enter the room code of the game to watch.')) onWatch(serverUrl.trim(), roomCode.trim().toUpperCase(), playerName.trim());
+  };
+
+  return (
+    <div className="command-panel p-6 space-y-4 fade-in">
+      <div className="bg-slate-900/50 p-2 text-center command-panel-header">
+        <h2 className="text-2xl font-semibold text-white">Online Engagement</h2>
+      </div>
+      {error && <p className="text-red-400 text-center bg-red-900/50 p-2 rounded-md text-sm">{error}</p>}
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label htmlFor="online_name" className="block text-slate-300 mb-1 text-sm tracking-wider">Callsign:</label>
+          <input
+            id="online_name"
+            type="text"
+            value={playerName}
+            onChange={(e) => setPlayerName(e.target.value)}
+            className="w-full px-3 py-2 command-input rounded-sm text-cyan-300 placeholder-slate-500 focus:outline-none transition"
+          />
+        </div>
+        <div>
+          <label htmlFor="online_server" className="block text-slate-300 mb-1 text-sm tracking-wider">Server:</label>
+          <input
+            id="online_server"
+            type="text"
+            value={serverUrl}
+            onChange={(e) => setServerUrl(e.target.value)}
+            className="w-full px-3 py-2 command-input rounded-sm text-cyan-300 text-sm font-mono placeholder-slate-500 focus:outline-none transition"
+          />
+        </div>
+      </div>
+
+      <button onClick={handleHost} className="w-full btn-angular btn-indigo text-white font-bold py-2 text-lg">
+        Host {gameMode === 'TACTICAL' ? 'Tactical' : 'Classic'} Game
+      </button>
+
+      <form onSubmit={handleJoin} className="flex gap-2">
+        <input
+          type="text"
+          value={roomCode}
+          onChange={(e) => setRoomCode(e.target.value.toUpperCase())}
+          placeholder="> Room code_"
+          aria-label="Room code"
+          maxLength={5}
+          className="flex-grow min-w-0 px-3 py-2 command-input rounded-sm text-cyan-300 font-mono tracking-[0.3em] placeholder-slate-500 placeholder:tracking-normal focus:outline-none transition"
+        />
+        <button type="submit" className="btn-angular bg-slate-700/50 hover:bg-slate-600/50 text-slate-200 font-bold px-6">Join</button>
+        <button type="button" onClick={handleWatch} className="btn-angular bg-slate-700/50 hover:bg-slate-600/50 text-slate-200 font-bold px-4">Watch</button>
+      </form>
+      <p className="text-xs text-slate-500">Two commanders, one screen each. The host's game mode and custom rules apply, and each side only ever sees its own fleet.</p>
+      <p className="text-xs text-slate-500">Spectators can follow either commander live, or see both fleets a few turns behind the game, as set in the host's settings.</p>
+    </div>
+  );
+};
+
+export default OnlinePanel;
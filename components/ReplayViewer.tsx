@@ -0,0 +1,115 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { GameState, GameLogEntry, CoordinateSystem } from '../types';
+import { buildReplayFrames } from '../services/replay';
+import { formatCoords } from '../services/coordinates';
+import Grid from './Grid';
+import ShipStatus from './ShipStatus';
+
+interface ReplayViewerProps {
+  game: GameState;
+  onClose: () => void;
+  coordinateSystem: CoordinateSystem;
+}
+
+const PLAYBACK_INTERVAL_MS = 900;
+
+const describeEntry = (entry: GameLogEntry, gridDimensions: GameState['gridDimensions'], coordinateSystem: CoordinateSystem) => {
+  if (entry.message) return entry.message;
+  const coords = entry.coords ? ` ${formatCoords(entry.coords, gridDimensions, coordinateSystem)}` : '';
+  const outcome = entry.result === 'SUNK_SHIP' ? `sunk ${entry.sunkShipName}` : entry.result.toLowerCase().replace('_', ' ');
+  return `${entry.playerName} fired at ${entry.targetName ?? 'the enemy'}${coords}: ${outcome}.`;
+};
+
+const ReplayViewer: React.FC<ReplayViewerProps> = ({ game, onClose, coordinateSystem }) => {
+  const frames = useMemo(() => buildReplayFrames(game), [game]);
+  const [frameIndex, setFrameIndex] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const lastIndex = frames.length - 1;
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    if (frameIndex >= lastIndex) {
+      setIsPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => setFrameIndex(i => Math.min(i + 1, lastIndex)), PLAYBACK_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [isPlaying, frameIndex, lastIndex]);
+
+  if (frames.length === 0) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center p-4 text-center command-background">
+        <div className="command-panel p-8 space-y-6">
+          <p className="text-slate-300 text-lg">No replay was recorded for this engagement.</p>
+          <button onClick={onClose} className="btn-angular btn-start font-bold py-3 px-8">Back</button>
+        </div>
+      </div>
+    );
+  }
+
+  const { state } = frames[frameIndex];
+  const latestEntry = frameIndex > 0 ? state.log[0] : null;
+
+  const step = (delta: number) => {
+    setIsPlaying(false);
+    setFrameIndex(i => Math.max(0, Math.min(lastIndex, i + delta)));
+  };
+
+  const togglePlay = () => {
+    if (!isPlaying && frameIndex >= lastIndex) setFrameIndex(0);
+    setIsPlaying(p => !p);
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col items-center p-4 fade-in command-background relative">
+      <div className="command-background-dots"></div>
+      <div className="w-full max-w-6xl space-y-4 relative z-10">
+        <div className="command-panel p-4 flex flex-wrap items-center justify-between gap-3">
+          <h1 className="text-3xl font-bold command-title tracking-widest">REPLAY</h1>
+          <p className="text-slate-400 text-sm">Seed <span className="font-mono text-cyan-300">{state.seed}</span> · Turn {state.turn}</p>
+          <button onClick={onClose} className="btn-angular bg-slate-700/50 hover:bg-slate-600/50 text-slate-200 font-bold py-2 px-6">Close</button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {state.players.map(player => (
+            <div key={player.id} className="command-panel p-4 space-y-3">
+              <h2 className={`text-xl font-semibold text-center ${player.id === state.currentPlayerId ? 'text-yellow-300' : 'text-slate-200'}`}>
+                {player.name}{player.isEliminated ? ' (eliminated)' : ''}
+              </h2>
+              <Grid
+                grid={player.grid}
+                ships={player.ships}
+                gridDimensions={state.gridDimensions}
+                coordinateSystem={coordinateSystem}
+                jammedOverlay={state.jammedArea?.playerId === player.id ? state.jammedArea.coords : []}
+                gameMode={state.gameMode}
+              />
+              <ShipStatus ships={player.ships} gameMode={state.gameMode} player={player} />
+            </div>
+          ))}
+        </div>
+
+        <div className="command-panel p-4 space-y-3">
+          <p className="text-center text-slate-300 min-h-[24px]">{latestEntry ? describeEntry(latestEntry, state.gridDimensions, coordinateSystem) : 'Fleets deployed.'}</p>
+          <input
+            type="range"
+            min={0}
+            max={lastIndex}
+            value={frameIndex}
+            onChange={(e) => { setIsPlaying(false); setFrameIndex(Number(e.target.value)); }}
+            className="w-full"
+            aria-label="Replay position"
+          />
+          <div className="flex items-center justify-center gap-3">
+            <button onClick={() => step(-1)} disabled={frameIndex === 0} className="btn-angular bg-slate-700/50 hover:bg-slate-600/50 text-slate-200 font-bold py-2 px-4 disabled:opacity-40">Step Back</button>
+            <button onClick={togglePlay} className="btn-angular btn-start font-bold py-2 px-8">{isPlaying ? 'Pause' : 'Play'}</button>
+            <button onClick={() => step(1)} disabled={frameIndex === lastIndex} className="btn-angular bg-slate-700/50 hover:bg-slate-600/50 text-slate-200 font-bold py-2 px-4 disabled:opacity-40">Step</button>
+          </div>
+          <p className="text-center text-xs text-slate-500">{frameIndex} / {lastIndex}</p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReplayViewer;
@@ -0,0 +1,103 @@
+import React from 'react';
+import { AIPacing, CoordinateSystem, Settings } from '../types';
+import { COORDINATE_SYSTEM_LABELS } from '../services/coordinates';
+import { AI_PACING_LABELS, AI_TIME_BUDGETS } from '../services/aiClient';
+import { SPECTATOR_DELAYS } from '../services/spectator';
+
+interface SettingsModalProps {
+  isOpen: boolean;
+  settings: Settings;
+  onChange: (settings: Settings) => void;
+  onClose: () => void;
+}
+
+const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, settings, onChange, onClose }) => {
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-4 fade-in" onClick={onClose}>
+      <div className="w-full max-w-md command-panel p-6 space-y-4" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-3xl font-bold command-title text-center">Settings</h2>
+        <div>
+          <p className="text-slate-300 mb-2 font-semibold tracking-wider">Coordinates:</p>
+          <div className="grid grid-cols-1 gap-2" role="radiogroup" aria-label="Coordinate system">
+            {(Object.keys(COORDINATE_SYSTEM_LABELS) as CoordinateSystem[]).map(system => (
+              <button
+                key={system}
+                role="radio"
+                aria-checked={settings.coordinateSystem === system}
+                onClick={() => onChange({ ...settings, coordinateSystem: system })}
+                className={`btn-angular py-2 font-bold transition-colors ${settings.coordinateSystem === system ? 'selected' : 'bg-slate-700/50 text-slate-300 hover:bg-slate-600/50'}`}
+              >
+                {COORDINATE_SYSTEM_LABELS[system]}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-slate-500 mt-2">Used for grid labels, the game log and typed targets.</p>
+        </div>
+        <div>
+          <label className="flex items-center justify-between gap-3 text-slate-300 font-semibold tracking-wider cursor-pointer">
+            AI reasoning panel
+            <input
+              type="checkbox"
+              checked={settings.showAIReasoning}
+              onChange={(e) => onChange({ ...settings, showAIReasoning: e.target.checked })}
+              className="w-5 h-5 accent-cyan-500"
+            />
+          </label>
+          <p className="text-xs text-slate-500 mt-2">Shows why AI commanders made each move, next to the game log.</p>
+        </div>
+        <div>
+          <p className="text-slate-300 mb-2 font-semibold tracking-wider">AI pacing:</p>
+          <div className="grid grid-cols-4 gap-2" role="radiogroup" aria-label="AI pacing">
+            {(Object.keys(AI_PACING_LABELS) as AIPacing[]).map(pacing => (
+              <button
+                key={pacing}
+                role="radio"
+                aria-checked={settings.aiPacing === pacing}
+                onClick={() => onChange({ ...settings, aiPacing: pacing })}
+                className={`btn-angular py-2 font-bold transition-colors ${settings.aiPacing === pacing ? 'selected' : 'bg-slate-700/50 text-slate-300 hover:bg-slate-600/50'}`}
+              >
+                {AI_PACING_LABELS[pacing]}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-slate-500 mt-2">How long AI turns stay on screen so you can follow them.</p>
+        </div>
+        <div>
+          <label className="flex items-center justify-between gap-3 text-slate-300 font-semibold tracking-wider">
+            AI thinking time
+            <select
+              value={settings.aiTimeBudgetMs}
+              onChange={(e) => onChange({ ...settings, aiTimeBudgetMs: Number(e.target.value) })}
+              className="px-2 py-1 command-input rounded-sm text-cyan-300 focus:outline-none"
+            >
+              {AI_TIME_BUDGETS.map(ms => <option key={ms} value={ms}>{ms / 1000} s</option>)}
+            </select>
+          </label>
+          <p className="text-xs text-slate-500 mt-2">An AI that takes longer plays a quick shot instead.</p>
+        </div>
+        <div>
+          <label className="flex items-center justify-between gap-3 text-slate-300 font-semibold tracking-wider">
+            Spectator delay
+            <select
+              value={settings.spectatorDelayTurns}
+              onChange={(e) => onChange({ ...settings, spectatorDelayTurns: Number(e.target.value) })}
+              className="px-2 py-1 command-input rounded-sm text-cyan-300 focus:outline-none"
+            >
+              {SPECTATOR_DELAYS.map(turns => <option key={turns} value={turns}>{turns} turns</option>)}
+            </select>
+          </label>
+          <p className="text-xs text-slate-500 mt-2">How far behind the game spectators see every fleet, in games you host or watch here.</p>
+        </div>
+        <div className="flex justify-center pt-2">
+          <button onClick={onClose} className="btn-angular bg-slate-700 hover:bg-slate-600 text-white font-bold py-2 px-6">
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsModal;
@@ -1,6 +1,7 @@
 import React, { useState, useCallback, useEffect } from 'react';
-import { GameState, Player, CellState, Ship } from '../types';
+import { GameState, Player, CellState, Ship, CoordinateSystem } from '../types';
 import { canPlaceShip, placeShip, createEmptyGrid, placeShipsForAI } from '../services/gameLogic';
+import { createRng, hashSeed } from '../services/random';
 import Grid from './Grid';
 import RotateIcon from './icons/RotateIcon';
 import UndoIcon from './icons/UndoIcon';
@@ -14,9 +15,10 @@ interface SetupPhaseProps {
   playerToSetup: Player;
   onReady: (player: Player) => void;
   showToast: (message: string, type: 'error' | 'info' | 'success') => void;
+  coordinateSystem: CoordinateSystem;
 }
 
-const SetupPhase: React.FC<SetupPhaseProps> = ({ game, playerToSetup, onReady, showToast }) => {
+const SetupPhase: React.FC<SetupPhaseProps> = ({ game, playerToSetup, onReady, showToast, coordinateSystem }) => {
   const [history, setHistory] = useState<Player[]>([playerToSetup]);
   const [historyIndex, setHistoryIndex] = useState(0);
   const localPlayer = history[historyIndex];
@@ -26,6 +28,7 @@ const SetupPhase: React.FC<SetupPhaseProps> = ({ game, playerToSetup, onReady, s
   const [draggedShipInfo, setDraggedShipInfo] = useState<{ ship: Ship; partIndex: number; isHorizontal: boolean; } | null>(null);
   const [selectedShipName, setSelectedShipName] = useState<string | null>(null);
   const [isFullscreen, setIsFullscreen] = useState(!!document.fullscreenElement);
+  const [autoPlaceCount, setAutoPlaceCount] = useState(0);
 
   const toggleFullscreen = useCallback(() => {
     if (!document.fullscreenEnabled) return;
@@ -101,7 +104,12 @@ const SetupPhase: React.FC<SetupPhaseProps> = ({ game, playerToSetup, onReady, s
         grid: createEmptyGrid(gridDimensions.rows, gridDimensions.cols),
         ships: game.shipsConfig.map(sc => ({...sc, positions: [], isSunk: false, isDamaged: false, hasBeenRepaired: false, hasBeenRelocated: false}))
     };
-    const playerWithPlacedShips = placeShipsForAI(blankPlayer, game.shipsConfig, gridDimensions);
+    // Derived from the game seed so a given seed always offers the same sequence of layouts.
+    // Online games keep the seed on the server, so layouts there follow the game ID instead.
+    const playerIndex = game.players.findIndex(p => p.id === playerToSetup.id);
+    const rng = createRng(hashSeed(`${game.seed || game.gameId}:setup:${playerIndex}:${autoPlaceCount}`));
+    setAutoPlaceCount(count => count + 1);
+    const playerWithPlacedShips = placeShipsForAI(blankPlayer, game.shipsConfig, gridDimensions, rng);
     recordHistory({ ...playerWithPlacedShips, isReady: false });
     setSelectedShipName(playerWithPlacedShips.ships[0]?.name || null);
   };
@@ -298,6 +306,7 @@ const SetupPhase: React.FC<SetupPhaseProps> = ({ game, playerToSetup, onReady, s
             onCellMouseLeave={() => setHoveredCell(null)}
             hoverPreview={hoverPreview}
             gridDimensions={gridDimensions}
+            coordinateSystem={coordinateSystem}
             onShipDragStart={handleShipDragStart}
             onCellDrop={handleCellDrop}
             onCellDragOver={handleCellDragOver}
@@ -1,5 +1,5 @@
 import React from 'react';
-import { Ship, Grid as GridType, CellState, GameMode, Player, ShipType } from '../types';
+import { Ship, Grid as GridType, CellState, GameMode, Player, ShipType, ActiveAction } from '../types';
 import ShipIcon from './icons/ShipIcon';
 import MothershipIcon from './icons/MothershipIcon';
 import RadarshipIcon from './icons/RadarshipIcon';
@@ -16,7 +16,7 @@ interface ShipStatusProps {
   gameMode?: GameMode;
   player?: Player;
   onPodClick?: (ship: Ship) => void;
-  activeAction?: any;
+  activeAction?: ActiveAction | null;
 }
 
 const ShipTypeIcon: React.FC<{ shipType: ShipType | string, className?: string }> = ({ shipType, className }) => {
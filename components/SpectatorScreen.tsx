@@ -0,0 +1,121 @@
+import React from 'react';
+import { GameState, GamePhase, Player, SpectatorViewMode, CoordinateSystem } from '../types';
+import { areAllies, createEmptyGrid } from '../services/gameLogic';
+import { isDelayedView } from '../services/spectator';
+import Grid from './Grid';
+import ShipStatus from './ShipStatus';
+import GameLog from './GameLog';
+
+interface SpectatorScreenProps {
+  // The spectator's view of the game, from `createSpectatorView`.
+  game: GameState;
+  view: SpectatorViewMode;
+  delayTurns: number;
+  // Where the game is played, e.g. "Room K7M2Q" or "Local game".
+  sourceLabel: string;
+  onChangeView: (view: SpectatorViewMode) => void;
+  onLeave: () => void;
+  coordinateSystem: CoordinateSystem;
+}
+
+const describeView = (game: GameState, view: SpectatorViewMode, delayTurns: number, followed?: Player): string => {
+  if (game.phase === GamePhase.GAME_OVER) {
+    const winner = game.players.find(p => p.id === game.winner);
+    return `${winner ? `${winner.name} won` : 'The game is over'}. Every fleet is shown.`;
+  }
+  if (view.type === 'FOLLOW' && followed) return `Seeing what ${followed.name} sees, live.`;
+  return isDelayedView(game)
+    ? `Every fleet as it stood on turn ${game.turn}, ${delayTurns} turns behind the game. Ships and decoys still there are hidden.`
+    : `Every fleet is shown once the game is ${delayTurns} turns in. Until then, only what is public.`;
+};
+
+const SpectatorScreen: React.FC<SpectatorScreenProps> = ({ game, view, delayTurns, sourceLabel, onChangeView, onLeave, coordinateSystem }) => {
+  const followed = view.type === 'FOLLOW' ? game.players.find(p => p.id === view.playerId) : undefined;
+  // Following a player, their side's boards show their fleets and everyone else's show that player's shots.
+  const isOnFollowedSide = (player: Player) => !followed || game.phase === GamePhase.GAME_OVER || player.id === followed.id || areAllies(player, followed);
+
+  return (
+    <div className="min-h-screen flex flex-col items-center p-4 fade-in command-background relative">
+      <div className="command-background-dots"></div>
+      <div className="w-full max-w-6xl space-y-4 relative z-10">
+        <div className="command-panel p-4 flex flex-wrap items-center justify-between gap-3">
+          <h1 className="text-3xl font-bold command-title tracking-widest">SPECTATING</h1>
+          <p className="text-slate-400 text-sm">{sourceLabel} · Turn {game.turn}</p>
+          <button onClick={onLeave} className="btn-angular bg-slate-700/50 hover:bg-slate-600/50 text-slate-200 font-bold py-2 px-6">Leave</button>
+        </div>
+
+        <div className="command-panel p-4 space-y-3">
+          <div className="flex flex-wrap justify-center gap-2" role="radiogroup" aria-label="Spectator view">
+            <button
+              role="radio"
+              aria-checked={view.type === 'OMNISCIENT'}
+              onClick={() => onChangeView({ type: 'OMNISCIENT' })}
+              className={`btn-angular px-4 py-2 font-bold transition-colors ${view.type === 'OMNISCIENT' ? 'selected' : 'bg-slate-700/50 text-slate-300 hover:bg-slate-600/50'}`}
+            >
+              All fleets ({delayTurns} turns behind)
+            </button>
+            {game.players.map(player => (
+              <button
+                key={player.id}
+                role="radio"
+                aria-checked={followed?.id === player.id}
+                onClick={() => onChangeView({ type: 'FOLLOW', playerId: player.id })}
+                className={`btn-angular px-4 py-2 font-bold transition-colors ${followed?.id === player.id ? 'selected' : 'bg-slate-700/50 text-slate-300 hover:bg-slate-600/50'}`}
+              >
+                Follow {player.name}
+              </button>
+            ))}
+          </div>
+          <p className="text-center text-slate-300">{describeView(game, view, delayTurns, followed)}</p>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {game.players.map(player => (
+            <div key={player.id} className="command-panel p-4 space-y-3">
+              <h2 className={`text-xl font-semibold text-center ${player.id === game.currentPlayerId ? 'text-yellow-300' : 'text-slate-200'}`}>
+                {player.name}{player.isAI ? ' (AI)' : ''}{player.isEliminated ? ' (eliminated)' : ''}
+              </h2>
+              {isOnFollowedSide(player) ? (
+                <>
+                  <Grid
+                    grid={player.grid}
+                    ships={player.ships}
+                    gridDimensions={game.gridDimensions}
+                    coordinateSystem={coordinateSystem}
+                    jammedOverlay={game.jammedArea?.playerId === player.id ? game.jammedArea.coords : []}
+                    gameMode={game.gameMode}
+                  />
+                  <ShipStatus ships={player.ships} grid={player.grid} gameMode={game.gameMode} player={player} />
+                </>
+              ) : (
+                <>
+                  <Grid
+                    grid={followed!.shots[player.id] || createEmptyGrid(game.gridDimensions.rows, game.gridDimensions.cols)}
+                    isOpponentGrid={true}
+                    gridDimensions={game.gridDimensions}
+                    coordinateSystem={coordinateSystem}
+                    jammedOverlay={game.jammedArea?.playerId === player.id ? game.jammedArea.coords : []}
+                    gameMode={game.gameMode}
+                  />
+                  <ShipStatus ships={player.ships} isOpponent={true} gameMode={game.gameMode} player={player} />
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <GameLog
+          log={game.log}
+          players={game.players}
+          currentUserId=""
+          gameMode={game.gameMode}
+          gridDimensions={game.gridDimensions}
+          coordinateSystem={coordinateSystem}
+          isPinned={true}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default SpectatorScreen;
@@ -17,7 +17,7 @@ const TurnTransition: React.FC<TurnTransitionProps> = ({ nextPlayerName, onConti
             SECURE HANDOFF
         </h1>
         <div className="text-lg text-slate-300 bg-slate-900/50 p-3 command-panel-header">
-            <p className="text-sm text-slate-400">> System Log: {message}</p>
+            <p className="text-sm text-slate-400">{'>'} System Log: {message}</p>
             <p className="mt-1">
                 Awaiting command from: <strong className="text-yellow-300 text-xl tracking-wider">{nextPlayerName}</strong>
             </p>
@@ -1,5 +1,5 @@
 
-import { Ship } from './types';
+import { GameConfig, GameMode, Ship } from './types';
 
 // FIX: Corrected the Omit type to include 'hasBeenRelocated' and removed the property from the objects to match the GameState type definition.
 export const SHIPS_CONFIG_DEFAULT: Omit<Ship, 'positions' | 'isSunk' | 'isDamaged' | 'type' | 'hasBeenRepaired' | 'hasBeenRelocated'>[] = [
@@ -20,7 +20,22 @@ export const SHIPS_CONFIG_TACTICAL: Omit<Ship, 'positions' | 'isSunk' | 'isDamag
     { name: 'Mothership', type: 'Mothership', length: 2 },
 ];
 
-export const getGameConfig = (mode: 'CLASSIC' | 'TACTICAL') => {
+// Limits for custom rules set in the lobby.
+export const MIN_GRID_SIZE = 8;
+export const MAX_GRID_SIZE = 20;
+export const MAX_SHIP_LENGTH = 8;
+export const MAX_FLEET_SIZE = 10;
+// Fleets may cover at most this share of the grid, so random deployment and relocation still find room.
+export const MAX_FLEET_COVERAGE = 0.5;
+
+export const getGameConfig = (mode: GameMode, customRules?: GameConfig | null): GameConfig => {
+    if (customRules) {
+        return {
+            gridDimensions: { ...customRules.gridDimensions },
+            shipsConfig: customRules.shipsConfig.map(s => ({ ...s })),
+        };
+    }
+
     if (mode === 'TACTICAL') {
         return {
             gridDimensions: { rows: 12, cols: 12 },
@@ -30,6 +45,6 @@ export const getGameConfig = (mode: 'CLASSIC' | 'TACTICAL') => {
 
     return {
         gridDimensions: { rows: 12, cols: 12 },
-        shipsConfig: SHIPS_CONFIG_DEFAULT.map(s => ({...s, type: s.name as any})), // Inelegant but works for classic
+        shipsConfig: SHIPS_CONFIG_DEFAULT.map(s => ({ ...s })),
     };
 };
@@ -0,0 +1,22 @@
+import { GameServiceRequest, GameServiceResponse } from '../../types';
+import { createMemoryGameStore, handleGameRequest } from '../../server/gameService';
+
+// Holds the authoritative state of hosted games and applies the moves players submit, so a client
+// can't change its game by editing the state it holds. POST a `GameServiceRequest` as JSON.
+// Games are kept in this function instance's memory; a deployment that must keep them across
+// instances should pass `handleGameRequest` a persistent `GameStore` instead.
+const store = createMemoryGameStore();
+
+const respond = (status: number, body: GameServiceResponse) => Response.json(body, { status });
+
+export default async (req: Request): Promise<Response> => {
+    if (req.method !== 'POST') return respond(405, { success: false, error: 'Send game requests with POST.' });
+    let request: GameServiceRequest;
+    try {
+        request = await req.json();
+    } catch {
+        return respond(400, { success: false, error: 'The request body must be JSON.' });
+    }
+    const reply = await handleGameRequest(store, request);
+    return respond(reply.status, reply.body);
+};
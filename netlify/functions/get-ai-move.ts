@@ -0,0 +1,19 @@
+import { AIMoveRequest, AIMoveResponse } from '../../types';
+import { handleAIMoveRequest } from '../../server/aiMoveService';
+
+// Serves AI moves over HTTP, for bots too slow to run in the browser and for tools outside the game.
+// POST an `AIMoveRequest` as JSON; the answer is an `AIMoveResponse`.
+
+const respond = (status: number, body: AIMoveResponse) => Response.json(body, { status });
+
+export default async (req: Request): Promise<Response> => {
+    if (req.method !== 'POST') return respond(405, { success: false, error: 'Request moves with POST.' });
+    let request: AIMoveRequest;
+    try {
+        request = await req.json();
+    } catch {
+        return respond(400, { success: false, error: 'The request body must be JSON.' });
+    }
+    const reply = handleAIMoveRequest(request);
+    return respond(reply.status, reply.body);
+};
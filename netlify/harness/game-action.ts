@@ -0,0 +1,167 @@
+import { CellState, GameAction, GameConfig, GameMode, GamePhase, GameServiceRequest, GameServiceResponse, GameState, HostedSeat, Player } from '../../types';
+import { getGameConfig } from '../../constants';
+import { placeAllShipsRandomly } from '../../services/gameLogic';
+import { toShipDeployments } from '../../services/aiPlacement';
+import { buildReplayFrames } from '../../services/replay';
+import { checkSkillAvailability } from '../../services/skills';
+import { createRng, hashSeed } from '../../services/random';
+import handler from '../functions/game-action';
+
+// Plays a game against the AI through the game-action function, the way a browser would call it,
+// and checks that the function holds the game: forged and malformed moves are refused, and no answer
+// shows the enemy fleet before the game is over. In Tactical the harness uses Radar and Decoy too.
+// Run it with `npm run try:game-action -- [TACTICAL|CLASSIC]`; without a mode it plays one of each.
+
+const ENDPOINT = 'http://localhost/.netlify/functions/game-action';
+const MAX_REQUESTS = 2000;
+
+let failures = 0;
+const check = (isOk: boolean, description: string) => {
+    console.log(`${isOk ? 'ok  ' : 'FAIL'} ${description}`);
+    if (!isOk) failures++;
+};
+
+const post = async (request: GameServiceRequest | string): Promise<{ status: number; body: GameServiceResponse }> => {
+    const response = await handler(new Request(ENDPOINT, { method: 'POST', body: typeof request === 'string' ? request : JSON.stringify(request) }));
+    return { status: response.status, body: await response.json() };
+};
+
+// Sunk ships are there for all to see; any other part of an enemy fleet is a leak.
+const showsEnemyFleet = (game: GameState, playerId: string): boolean =>
+    game.players.some(p => p.id !== playerId && (
+        p.ships.some(ship => !ship.isSunk && ship.positions.length > 0)
+        || p.grid.some(row => row.some(cell => cell !== CellState.EMPTY && cell !== CellState.SUNK))
+        || p.decoyPositions.length > 0
+    ));
+
+// Actions a client could send that the rules have no answer for. Each must be refused, not crash the function.
+const malformedActions = (playerId: string, enemyId: string): [string, unknown][] => [
+    ['a shot between squares', { type: 'FIRE_SHOT', playerId, targetId: enemyId, x: 1.5, y: 0 }],
+    ['a shot at a square given as text', { type: 'FIRE_SHOT', playerId, targetId: enemyId, x: '2', y: 0 }],
+    ['a shot at no one', { type: 'FIRE_SHOT', playerId, targetId: 42, x: 0, y: 0 }],
+    ['a Radar scan between squares', { type: 'USE_SKILL', playerId, skill: { shipType: 'Radarship', targetId: enemyId, x: 0.5, y: 0 } }],
+    ['a skill of no ship', { type: 'USE_SKILL', playerId, skill: { shipType: 'Battleship', x: 0, y: 0 } }],
+    ['a skill without its details', { type: 'USE_SKILL', playerId, skill: null }],
+    ['an action of no known type', { type: 'BOGUS', playerId }],
+    ['an armed mode of no known type', { type: 'SELECT_ACTION', playerId, action: { type: 'NUKE', playerId } }],
+    ['an armed placement the engine never started', { type: 'SELECT_ACTION', playerId, action: { type: 'SKILL', playerId, shipType: 'Commandship', stage: 'PLACE_SHIP', originalPositions: [{ x: 0, y: 0, state: CellState.SHIP }] } }],
+    ['a selection of a ship without a skill to move it', { type: 'SELECT_SHIP', playerId, shipType: 'Radarship', shipName: 'Radarship' }],
+    ['no action at all', null],
+];
+
+// The top-left square of a 2x2 block the player hasn't shot at yet, for a Radar scan.
+const findUnscannedBlock = (player: Player, enemyId: string): { x: number; y: number } | null => {
+    const shots = player.shots[enemyId];
+    for (let y = 0; y < shots.length - 1; y++) {
+        for (let x = 0; x < shots[y].length - 1; x++) {
+            if ([shots[y][x], shots[y][x + 1], shots[y + 1][x], shots[y + 1][x + 1]].every(cell => cell === CellState.EMPTY)) return { x, y };
+        }
+    }
+    return null;
+};
+
+// The harness's move: a Radar scan or decoy when one is ready in Tactical, otherwise a shot at the first open square.
+const chooseAction = (game: GameState, player: Player, enemyId: string): GameAction => {
+    if (game.gameMode === 'TACTICAL') {
+        const freeSquare = player.grid.flatMap((row, y) => row.map((cell, x) => ({ cell, x, y }))).find(square => square.cell === CellState.EMPTY);
+        if (freeSquare && !checkSkillAvailability(player, 'Decoyship')) {
+            return { type: 'USE_SKILL', playerId: player.id, skill: { shipType: 'Decoyship', x: freeSquare.x, y: freeSquare.y } };
+        }
+        const block = findUnscannedBlock(player, enemyId);
+        if (block && !checkSkillAvailability(player, 'Radarship')) {
+            return { type: 'USE_SKILL', playerId: player.id, skill: { shipType: 'Radarship', targetId: enemyId, ...block } };
+        }
+    }
+    const shots = player.shots[enemyId];
+    const y = shots.findIndex(row => row.some(cell => cell === CellState.EMPTY || cell === CellState.RADAR_CONTACT));
+    const x = shots[y].findIndex(cell => cell === CellState.EMPTY || cell === CellState.RADAR_CONTACT);
+    return { type: 'FIRE_SHOT', playerId: player.id, targetId: enemyId, x, y };
+};
+
+const playGame = async (gameMode: GameMode) => {
+    console.log(`Playing a ${gameMode} game against the AI through the game-action function.`);
+
+    check((await handler(new Request(ENDPOINT))).status === 405, 'GET requests are refused');
+    check((await post('{ not json')).status === 400, 'malformed bodies are refused');
+    check((await post({ type: 'CREATE_GAME', seats: [{ name: 'Solo', isAI: false }], gameMode })).status === 400, 'games need two seats');
+    const pairSeats = [{ name: 'Harness', isAI: false }, { name: 'Gemini AI', isAI: true }];
+    const malformedRules: unknown[] = [{}, { gridDimensions: { rows: 10, cols: 10 }, shipsConfig: [{ name: 'Ship 1' }] }];
+    for (const customRules of malformedRules) {
+        check((await post({ type: 'CREATE_GAME', seats: pairSeats, gameMode, customRules: customRules as GameConfig })).status === 400, `malformed custom rules are refused: ${JSON.stringify(customRules)}`);
+    }
+
+    const created = await post({
+        type: 'CREATE_GAME',
+        seats: [{ name: 'Harness', isAI: false }, { name: 'Gemini AI', isAI: true, difficulty: 'NORMAL' }],
+        gameMode,
+        seed: 'harness',
+    });
+    if (created.body.success === false) throw new Error(`Could not create the game: ${created.body.error}`);
+    const seat: HostedSeat = created.body.seats![0];
+    let game = created.body.game;
+    const gameId = game.gameId;
+    const enemyId = game.players.find(p => p.id !== seat.playerId)!.id;
+    check(created.status === 201 && game.phase === GamePhase.SETUP, 'the game is created in setup');
+    check(game.seed === '', 'the seed stays on the server');
+
+    check((await post({ type: 'GET_GAME', gameId, seatToken: 'forged' })).status === 403, 'a forged seat token is refused');
+    check((await post({ type: 'GET_GAME', gameId: 'missing', seatToken: seat.seatToken })).status === 404, 'an unknown game is reported');
+
+    const config = getGameConfig(gameMode);
+    const fleet = placeAllShipsRandomly(config.shipsConfig, config.gridDimensions, createRng(hashSeed('harness fleet')));
+    check((await post({ type: 'DEPLOY_FLEET', gameId, seatToken: seat.seatToken, deployments: [] })).status === 409, 'an incomplete fleet is refused');
+    const deployed = await post({ type: 'DEPLOY_FLEET', gameId, seatToken: seat.seatToken, deployments: toShipDeployments(fleet.ships) });
+    if (deployed.body.success === false) throw new Error(`Could not deploy: ${deployed.body.error}`);
+    game = deployed.body.game;
+    check(game.phase === GamePhase.PLAYING, 'play begins once the fleet is deployed');
+
+    const forged = await post({ type: 'GAME_ACTION', gameId, seatToken: seat.seatToken, action: { type: 'FIRE_SHOT', playerId: enemyId, targetId: seat.playerId, x: 0, y: 0 } });
+    check(forged.status === 409 && forged.body.success === false && forged.body.reason === 'NOT_YOUR_TURN', "a move for the other player is refused");
+    for (const [description, action] of malformedActions(seat.playerId, enemyId)) {
+        const answer = await post({ type: 'GAME_ACTION', gameId, seatToken: seat.seatToken, action: action as GameAction });
+        check(answer.status === 409 && answer.body.success === false, `${description} is refused`);
+    }
+    const unchanged = await post({ type: 'GET_GAME', gameId, seatToken: seat.seatToken });
+    check(unchanged.body.success === true && JSON.stringify(unchanged.body.game) === JSON.stringify(game), 'refused moves leave the game as it was');
+
+    let requests = 0;
+    let hasLeaked = false;
+    const skillsUsed = new Set<string>();
+    while (game.phase !== GamePhase.GAME_OVER && requests++ < MAX_REQUESTS) {
+        hasLeaked = hasLeaked || showsEnemyFleet(game, seat.playerId);
+        const action: GameAction = game.hasActedThisTurn
+            ? { type: 'END_TURN', playerId: seat.playerId }
+            : chooseAction(game, game.players.find(p => p.id === seat.playerId)!, enemyId);
+        const answer = await post({ type: 'GAME_ACTION', gameId, seatToken: seat.seatToken, action });
+        if (answer.body.success === false) throw new Error(`Move refused: ${answer.body.error}`);
+        if (action.type === 'USE_SKILL') skillsUsed.add(action.skill.shipType);
+        game = answer.body.game;
+    }
+    check(!hasLeaked, 'no answer during play showed the enemy fleet');
+    if (gameMode === 'TACTICAL') {
+        check(skillsUsed.has('Radarship') && skillsUsed.has('Decoyship'), 'Radar scans and decoys are accepted through the function');
+    }
+    check(game.phase === GamePhase.GAME_OVER, `the game finished after ${requests} requests`);
+
+    const winner = game.players.find(p => p.id === game.winner);
+    console.log(`     ${winner?.name ?? 'Nobody'} won on turn ${game.turn}.`);
+    check(game.seed === 'harness' && !!game.record, 'the finished game comes with its seed and record');
+    const frames = buildReplayFrames(game);
+    const lastFrame = frames[frames.length - 1]?.state;
+    check(lastFrame?.phase === GamePhase.GAME_OVER && lastFrame.winner === game.winner, 'the record replays to the same result');
+
+    const late = await post({ type: 'GAME_ACTION', gameId, seatToken: seat.seatToken, action: { type: 'END_TURN', playerId: seat.playerId } });
+    check(late.status === 409, 'moves after the game is over are refused');
+};
+
+const run = async () => {
+    const modes: GameMode[] = process.argv[2] === 'TACTICAL' || process.argv[2] === 'CLASSIC' ? [process.argv[2]] : ['CLASSIC', 'TACTICAL'];
+    for (const gameMode of modes) await playGame(gameMode);
+    console.log(failures === 0 ? 'All checks passed.' : `${failures} check(s) failed.`);
+    process.exitCode = failures === 0 ? 0 : 1;
+};
+
+run().catch(error => {
+    console.error(error);
+    process.exitCode = 1;
+});
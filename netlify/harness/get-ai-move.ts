@@ -0,0 +1,103 @@
+import { AIDifficulty, AIMoveRequest, AIMoveResponse, GameMode, GamePhase, GameState } from '../../types';
+import { getGameConfig } from '../../constants';
+import { applyAction, createGame, startGame } from '../../services/gameLogic';
+import { createAIView } from '../../services/aiView';
+import { createSeatPlayers, deployAIFleet, takeAITurn } from '../../services/aiStrategies';
+import { createRng } from '../../services/random';
+import handler from '../functions/get-ai-move';
+
+// Plays an AI-against-AI game in which every move comes from the get-ai-move function, and checks
+// that the function answers as the in-browser AI would, serves skills in Tactical, and refuses
+// malformed requests. Run it with `npm run try:get-ai-move -- [TACTICAL|CLASSIC]`; without a mode
+// it plays one of each.
+
+const ENDPOINT = 'http://localhost/.netlify/functions/get-ai-move';
+const MAX_MOVES = 2000;
+// Each side's difficulty is sent with the request rather than stored on the player.
+const DIFFICULTIES: AIDifficulty[] = ['NORMAL', 'HARD'];
+
+let failures = 0;
+const check = (isOk: boolean, description: string) => {
+    console.log(`${isOk ? 'ok  ' : 'FAIL'} ${description}`);
+    if (!isOk) failures++;
+};
+
+const post = async (request: AIMoveRequest | string): Promise<{ status: number; body: AIMoveResponse }> => {
+    const response = await handler(new Request(ENDPOINT, { method: 'POST', body: typeof request === 'string' ? request : JSON.stringify(request) }));
+    return { status: response.status, body: await response.json() };
+};
+
+const openGame = (gameMode: GameMode): GameState => {
+    const config = getGameConfig(gameMode);
+    const players = createSeatPlayers([{ name: 'Blue', isAI: true }, { name: 'Red', isAI: true }], config, gameMode);
+    const game = createGame(players, config.gridDimensions, config.shipsConfig, gameMode, 'get-ai-move harness');
+    const rng = createRng(game.rngState);
+    const deployed = game.players.map(p => deployAIFleet(p, game, rng));
+    return startGame({ ...game, players: deployed, rngState: rng.getState() }, deployed[0].id);
+};
+
+const playGame = async (gameMode: GameMode) => {
+    console.log(`Playing a ${gameMode} game between two AIs whose moves come from the get-ai-move function.`);
+    let game = openGame(gameMode);
+    const view = createAIView(game, game.currentPlayerId!);
+
+    check((await handler(new Request(ENDPOINT))).status === 405, 'GET requests are refused');
+    check((await post('{ not json')).status === 400, 'malformed bodies are refused');
+    const missingView = await post({ difficulty: 'HARD' } as AIMoveRequest);
+    check(missingView.status === 400 && missingView.body.success === false && !!missingView.body.errors?.length, 'a request without a view is refused, naming the problem');
+    const hugeBoard = await post({ view: { ...view, gridDimensions: { rows: 500, cols: 500 } } });
+    check(hugeBoard.status === 400, 'boards larger than the lobby allows are refused');
+    check((await post({ view, difficulty: 'IMPOSSIBLE' as AIDifficulty })).status === 400, 'unknown difficulties are refused');
+    check((await post({ view, strategyId: 'no-such-bot' })).status === 400, 'unknown strategies are refused');
+    check((await post({ view, rngState: 1.5 })).status === 400, 'random states that are not whole numbers are refused');
+
+    const first = await post({ view, rngState: game.aiRngState });
+    const again = await post({ view, rngState: game.aiRngState });
+    check(first.status === 200 && JSON.stringify(first.body) === JSON.stringify(again.body), 'the same view and random state give the same move');
+    if (first.body.success === true) {
+        const served = applyAction({ ...game, aiRngState: first.body.rngState }, first.body.move.action);
+        const local = takeAITurn(game);
+        check(served.success === true && JSON.stringify(served.state.log) === JSON.stringify(local.log), 'the move is the one the in-browser AI plays');
+    }
+
+    let moves = 0;
+    let refused = 0;
+    let skillsUsed = 0;
+    while (game.phase === GamePhase.PLAYING && moves++ < MAX_MOVES) {
+        const playerId = game.currentPlayerId!;
+        if (game.hasActedThisTurn) {
+            const ended = applyAction(game, { type: 'END_TURN', playerId });
+            if (ended.success === false) throw new Error(`Could not end the turn: ${ended.reason}`);
+            game = ended.state;
+            continue;
+        }
+        const difficulty = DIFFICULTIES[game.players.findIndex(p => p.id === playerId)];
+        const answer = await post({ view: createAIView(game, playerId), difficulty, rngState: game.aiRngState });
+        if (answer.body.success === false) throw new Error(`No move served: ${answer.body.error}`);
+        const result = applyAction({ ...game, aiRngState: answer.body.rngState }, answer.body.move.action);
+        if (result.success === true) {
+            if (answer.body.move.action.type === 'USE_SKILL') skillsUsed++;
+            game = result.state;
+        } else {
+            // The browser falls back to a plain shot when the engine refuses a strategy's move; so does the harness.
+            refused++;
+            game = takeAITurn({ ...game, aiRngState: answer.body.rngState });
+        }
+    }
+    check(game.phase === GamePhase.GAME_OVER, `the game finished after ${moves} moves`);
+    const winner = game.players.find(p => p.id === game.winner);
+    console.log(`     ${winner?.name ?? 'Nobody'} won on turn ${game.turn}; the engine refused ${refused} served move(s).`);
+    if (gameMode === 'TACTICAL') check(skillsUsed > 0, `the engine accepted ${skillsUsed} served skill(s)`);
+};
+
+const run = async () => {
+    const modes: GameMode[] = process.argv[2] === 'TACTICAL' || process.argv[2] === 'CLASSIC' ? [process.argv[2]] : ['CLASSIC', 'TACTICAL'];
+    for (const gameMode of modes) await playGame(gameMode);
+    console.log(failures === 0 ? 'All checks passed.' : `${failures} check(s) failed.`);
+    process.exitCode = failures === 0 ? 0 : 1;
+};
+
+run().catch(error => {
+    console.error(error);
+    process.exitCode = 1;
+});
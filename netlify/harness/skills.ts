@@ -0,0 +1,183 @@
+import { CellState, GamePhase, GameState, Player, SkillRejectionReason, SkillRequest } from '../../types';
+import { getGameConfig } from '../../constants';
+import { createGame, createInitialPlayer, placeShip, startGame } from '../../services/gameLogic';
+import { resolveSkill, SKILL_REJECTION_MESSAGES } from '../../services/skills';
+
+// Uses every ship skill through the skills engine on a fixed Tactical game, and checks what each one
+// does to the game and each reason it can be refused for. The engine never changes the state it is
+// given, so every check starts from the same game.
+// Run it with `npm run try:skills`.
+
+let failures = 0;
+const check = (isOk: boolean, description: string) => {
+    console.log(`${isOk ? 'ok  ' : 'FAIL'} ${description}`);
+    if (!isOk) failures++;
+};
+
+// Two fleets laid out the same way, every ship on its own even row from the left edge:
+// Commandship on row 0, then Decoyship, Radarship, Repairship, Jamship and the Mothership on row 10.
+const createTestGame = (): GameState => {
+    const { gridDimensions, shipsConfig } = getGameConfig('TACTICAL');
+    const players = [['alpha', 'Alpha'], ['bravo', 'Bravo']].map(([id, name]) => {
+        const player = createInitialPlayer(id, name, false, shipsConfig, gridDimensions, 'TACTICAL');
+        player.ships = player.ships.map((ship, i) => {
+            const { newGrid, newShip } = placeShip(player.grid, ship, 0, i * 2, true);
+            player.grid = newGrid;
+            return newShip;
+        });
+        return player;
+    });
+    return startGame(createGame(players, gridDimensions, shipsConfig, 'TACTICAL', 'skills'), 'alpha');
+};
+
+// A copy of the game with changes made to it, to set up a check.
+const withChanges = (game: GameState, change: (state: GameState, alpha: Player, bravo: Player) => void): GameState => {
+    const state: GameState = JSON.parse(JSON.stringify(game));
+    change(state, state.players[0], state.players[1]);
+    return state;
+};
+
+// Marks a square of a fleet as hit on the given turn, as a shot would.
+const hitSquare = (state: GameState, owner: Player, x: number, y: number, turn: number) => {
+    owner.grid[y][x] = CellState.HIT;
+    owner.ships.find(ship => ship.positions.some(pos => pos.x === x && pos.y === y))!.isDamaged = true;
+    state.players.filter(p => p.id !== owner.id).forEach(p => { p.shots[owner.id][y][x] = CellState.HIT; });
+    state.hitLog = { ...state.hitLog, [owner.id]: { ...state.hitLog?.[owner.id], [`${x},${y}`]: turn } };
+};
+
+const use = (game: GameState, request: SkillRequest): GameState | null => {
+    const result = resolveSkill(game, request);
+    return result.success === true ? result.state : null;
+};
+
+const refusalsSeen = new Set<SkillRejectionReason>();
+const checkRefused = (description: string, game: GameState, request: SkillRequest, reason: SkillRejectionReason) => {
+    const result = resolveSkill(game, request);
+    const refusal = result.success === false ? result.reason : 'accepted';
+    if (result.success === false) refusalsSeen.add(result.reason);
+    check(refusal === reason, `${description} is refused with ${reason}${refusal === reason ? '' : `, not ${refusal}`}`);
+};
+
+const findShip = (player: Player, name: string) => player.ships.find(ship => ship.name === name)!;
+
+const checkRadar = (game: GameState) => {
+    const state = use(game, { shipType: 'Radarship', targetId: 'bravo', x: 0, y: 4 });
+    const results = state?.radarScanResult?.results ?? [];
+    const contacts = results.filter(r => r.state === CellState.RADAR_CONTACT).map(r => `${r.x},${r.y}`);
+    check(results.length === 4 && contacts.join(' ') === '0,4 1,4', 'Radar finds the two squares of Bravo\'s Radarship in its 2x2 scan');
+    check(state?.players[0].skillCooldowns.Radarship === 3 && state.hasActedThisTurn, 'Radar goes on a 3-turn cooldown and spends the action');
+    check(state?.players[0].radarScans?.length === 1, 'the scan is kept in the player\'s radar history');
+
+    checkRefused('a Radar scan of your own fleet', game, { shipType: 'Radarship', targetId: 'alpha', x: 0, y: 4 }, 'INVALID_TARGET');
+    checkRefused('a Radar scan off the board', game, { shipType: 'Radarship', targetId: 'bravo', x: 12, y: 0 }, 'INVALID_TARGET');
+    checkRefused('a Radar scan between squares', game, { shipType: 'Radarship', targetId: 'bravo', x: 0.5, y: 0 }, 'INVALID_TARGET');
+    const coolingDown = withChanges(game, (_, alpha) => { alpha.skillCooldowns.Radarship = 2; });
+    checkRefused('Radar on cooldown', coolingDown, { shipType: 'Radarship', targetId: 'bravo', x: 0, y: 4 }, 'ON_COOLDOWN');
+};
+
+const checkJam = (game: GameState) => {
+    const state = use(game, { shipType: 'Jamship', targetId: 'bravo', x: 5, y: 5 });
+    const bravo = state?.players[1];
+    check(bravo?.jammedPositions?.length === 9 && bravo.jamTurnsRemaining === 1, 'Jam covers a 3x3 area of Bravo\'s fleet for a turn');
+    check(state?.jammedArea?.playerId === 'bravo' && state.players[0].skillCooldowns.Jamship === 4, 'the jam is shown on Bravo\'s board and Jam goes on a 4-turn cooldown');
+    const corner = use(game, { shipType: 'Jamship', targetId: 'bravo', x: 0, y: 0 });
+    check(corner?.players[1].jammedPositions?.length === 4, 'a jam in a corner covers only the squares on the board');
+
+    checkRefused('a jam on your own fleet', game, { shipType: 'Jamship', targetId: 'alpha', x: 5, y: 5 }, 'INVALID_TARGET');
+    const jammed = withChanges(game, (_, alpha) => { alpha.jammedPositions = [{ x: 0, y: 4 }]; });
+    checkRefused('a skill of a jammed ship', jammed, { shipType: 'Radarship', targetId: 'bravo', x: 0, y: 0 }, 'JAMMED');
+};
+
+const checkRepair = (game: GameState) => {
+    const damaged = withChanges(game, (state, alpha) => { state.turn = 3; hitSquare(state, alpha, 0, 4, 2); });
+    const state = use(damaged, { shipType: 'Repairship', x: 0, y: 4 });
+    const radarship = state && findShip(state.players[0], 'Radarship');
+    check(state?.players[0].grid[4][0] === CellState.SHIP && radarship?.isDamaged === false && radarship.hasBeenRepaired, 'Repair mends a hit square of the fleet');
+    check(state?.players[1].shots.alpha[4][0] === CellState.EMPTY, 'the hit disappears from the enemy\'s shots grid');
+    check(state?.players[0].skillCooldowns.Repairship === 3, 'Repair goes on a 3-turn cooldown');
+
+    const justHit = withChanges(game, (state, alpha) => { state.turn = 3; hitSquare(state, alpha, 0, 4, 3); });
+    checkRefused('a repair of damage taken this turn', justHit, { shipType: 'Repairship', x: 0, y: 4 }, 'CANNOT_REPAIR');
+    checkRefused('a repair of an undamaged square', damaged, { shipType: 'Repairship', x: 1, y: 4 }, 'CANNOT_REPAIR');
+    const repairedBefore = withChanges(damaged, (_, alpha) => { findShip(alpha, 'Radarship').hasBeenRepaired = true; });
+    checkRefused('a second repair of the same ship', repairedBefore, { shipType: 'Repairship', x: 0, y: 4 }, 'CANNOT_REPAIR');
+    checkRefused('a repair of an enemy\'s ship', damaged, { shipType: 'Repairship', x: 0, y: 4, targetId: 'bravo' }, 'CANNOT_REPAIR');
+};
+
+const checkDecoy = (game: GameState) => {
+    const state = use(game, { shipType: 'Decoyship', x: 11, y: 11 });
+    const alpha = state?.players[0];
+    check(alpha?.grid[11][11] === CellState.DECOY && alpha.decoyPositions.length === 1, 'a decoy is placed on an empty square');
+    check(alpha?.skillUses.Decoyship === 1, 'a decoy uses up one of two');
+
+    checkRefused('a decoy on a ship', game, { shipType: 'Decoyship', x: 0, y: 0 }, 'CANNOT_PLACE_DECOY');
+    checkRefused('a decoy off the board', game, { shipType: 'Decoyship', x: -1, y: 0 }, 'CANNOT_PLACE_DECOY');
+    const usedUp = withChanges(game, (_, alpha) => { alpha.skillUses.Decoyship = 0; });
+    checkRefused('a third decoy', usedUp, { shipType: 'Decoyship', x: 11, y: 11 }, 'NO_USES_LEFT');
+};
+
+const checkRelocate = (game: GameState) => {
+    const state = use(game, { shipType: 'Commandship', shipName: 'Radarship', placement: { x: 6, y: 4, isHorizontal: true } });
+    const radarship = state && findShip(state.players[0], 'Radarship');
+    check(radarship?.positions.map(p => `${p.x},${p.y}`).join(' ') === '6,4 7,4 8,4' && radarship.hasBeenRelocated, 'Relocate moves a ship to the chosen squares');
+    check(state?.players[0].grid[4][0] === CellState.EMPTY && state.players[0].grid[4][6] === CellState.SHIP, 'the grid moves with the ship');
+    check(state?.players[0].skillCooldowns.Commandship === 4, 'Relocate goes on a 4-turn cooldown');
+    const random = use(game, { shipType: 'Commandship', shipName: 'Radarship' });
+    check(!!random && findShip(random.players[0], 'Radarship').positions.length === 3 && random.rngState !== game.rngState, 'without a placement the ship goes to a random spot, drawn from the game\'s generator');
+
+    checkRefused('a relocation onto another ship', game, { shipType: 'Commandship', shipName: 'Radarship', placement: { x: 0, y: 2, isHorizontal: true } }, 'INVALID_RELOCATION');
+    checkRefused('a relocation off the board', game, { shipType: 'Commandship', shipName: 'Radarship', placement: { x: 10, y: 4, isHorizontal: true } }, 'INVALID_RELOCATION');
+    checkRefused('a relocation of a ship not in the fleet', game, { shipType: 'Commandship', shipName: 'Battleship' }, 'INVALID_TARGET');
+    const damaged = withChanges(game, (state, alpha) => hitSquare(state, alpha, 0, 4, 1));
+    checkRefused('a relocation of a damaged ship', damaged, { shipType: 'Commandship', shipName: 'Radarship' }, 'INVALID_TARGET');
+    const commandDamaged = withChanges(game, (state, alpha) => hitSquare(state, alpha, 0, 0, 1));
+    checkRefused('a relocation by a damaged Commandship', commandDamaged, { shipType: 'Commandship', shipName: 'Radarship' }, 'SHIP_UNAVAILABLE');
+};
+
+const checkEscape = (game: GameState) => {
+    checkRefused('an Escape before the Mothership is hit', game, { shipType: 'Mothership' }, 'SKILL_LOCKED');
+
+    const damaged = withChanges(game, (state, alpha) => { hitSquare(state, alpha, 0, 10, 1); alpha.escapeSkillUnlocked = true; });
+    const state = use(damaged, { shipType: 'Mothership', placement: { x: 8, y: 11, isHorizontal: true } });
+    const mothership = state && findShip(state.players[0], 'Mothership');
+    check(mothership?.positions.map(p => `${p.x},${p.y}`).join(' ') === '8,11 9,11' && !mothership.isDamaged, 'Escape moves the Mothership and repairs it fully');
+    check(state?.players[1].shots.alpha[10][0] === CellState.EMPTY && state.players[0].skillUses.Mothership === 0, 'the old hit disappears from the enemy\'s grid and Escape is used up');
+
+    checkRefused('an Escape onto another ship', damaged, { shipType: 'Mothership', placement: { x: 0, y: 8, isHorizontal: true } }, 'INVALID_ESCAPE_PLACEMENT');
+    const usedUp = withChanges(damaged, (_, alpha) => { alpha.skillUses.Mothership = 0; });
+    checkRefused('a second Escape', usedUp, { shipType: 'Mothership' }, 'NO_USES_LEFT');
+};
+
+const checkGeneralRefusals = (game: GameState) => {
+    const inSetup = withChanges(game, state => { state.phase = GamePhase.SETUP; });
+    checkRefused('a skill before play begins', inSetup, { shipType: 'Radarship', targetId: 'bravo', x: 0, y: 0 }, 'NOT_IN_PLAY');
+    const acted = withChanges(game, state => { state.hasActedThisTurn = true; });
+    checkRefused('a skill after the turn\'s action', acted, { shipType: 'Radarship', targetId: 'bravo', x: 0, y: 0 }, 'NOT_IN_PLAY');
+    const sunk = withChanges(game, (_, alpha) => { findShip(alpha, 'Radarship').isSunk = true; });
+    checkRefused('a skill of a sunk ship', sunk, { shipType: 'Radarship', targetId: 'bravo', x: 0, y: 0 }, 'SHIP_UNAVAILABLE');
+    checkRefused('a skill of no ship', game, { shipType: 'Battleship' } as unknown as SkillRequest, 'SHIP_UNAVAILABLE');
+    checkRefused('no skill at all', game, null as unknown as SkillRequest, 'SHIP_UNAVAILABLE');
+};
+
+const run = () => {
+    console.log('Using every skill on a fixed Tactical game through the skills engine.');
+    const game = createTestGame();
+    const before = JSON.stringify(game);
+
+    checkRadar(game);
+    checkJam(game);
+    checkRepair(game);
+    checkDecoy(game);
+    checkRelocate(game);
+    checkEscape(game);
+    checkGeneralRefusals(game);
+
+    check(JSON.stringify(game) === before, 'the engine never changed the game it was given');
+    const missed = (Object.keys(SKILL_REJECTION_MESSAGES) as SkillRejectionReason[]).filter(reason => !refusalsSeen.has(reason));
+    check(missed.length === 0, `every refusal reason was seen${missed.length > 0 ? `; missing ${missed.join(', ')}` : ''}`);
+
+    console.log(failures === 0 ? 'All checks passed.' : `${failures} check(s) failed.`);
+    process.exitCode = failures === 0 ? 0 : 1;
+};
+
+run();
@@ -0,0 +1,48 @@
+import { AIDifficulty, AIMoveRequest, AIMoveResponse, AIView } from '../types';
+import { getAIStrategy, listAIStrategies } from '../services/aiStrategies';
+import { validateAIView } from '../services/gameFile';
+import { createRng, generateSeed, hashSeed } from '../services/random';
+
+const AI_DIFFICULTIES: AIDifficulty[] = ['EASY', 'NORMAL', 'HARD', 'EXPERT'];
+
+// An HTTP status with the response body, for whichever transport carries it.
+export interface AIMoveReply {
+    status: number;
+    body: AIMoveResponse;
+}
+
+const reject = (status: number, error: string, errors?: string[]): AIMoveReply =>
+    ({ status, body: { success: false, error, ...(errors ? { errors } : {}) } });
+
+/**
+ * Picks an AI move for a board view with the same strategies that play in the browser. The view is
+ * all the AI gets, so callers never need to send, or can tamper with, anything an AI may not see.
+ * Answers 400 for a malformed request, listing the fields at fault, and 500 if the strategy fails.
+ * @param request The parsed request body, checked here before use.
+ */
+export const handleAIMoveRequest = (request: AIMoveRequest): AIMoveReply => {
+    if (request === null || typeof request !== 'object') return reject(400, 'The request must be an object with a view.');
+    const viewErrors = validateAIView(request.view);
+    if (viewErrors.length > 0) return reject(400, 'The view is not a valid board view.', viewErrors);
+
+    const { difficulty, strategyId, rngState } = request;
+    if (difficulty !== undefined && !AI_DIFFICULTIES.includes(difficulty)) return reject(400, `Unknown AI difficulty "${difficulty}".`);
+    if (strategyId !== undefined && !listAIStrategies().some(strategy => strategy.id === strategyId)) {
+        return reject(400, `Unknown AI strategy "${strategyId}".`);
+    }
+    if (rngState !== undefined && !(Number.isInteger(rngState) && rngState >= 0)) return reject(400, 'rngState must be a whole number of at least 0.');
+
+    const self = request.view.self;
+    const view: AIView = {
+        ...request.view,
+        self: { ...self, isAI: true, aiDifficulty: difficulty ?? self.aiDifficulty ?? 'NORMAL', aiStrategyId: strategyId ?? self.aiStrategyId },
+    };
+    const rng = createRng(rngState ?? hashSeed(generateSeed()));
+    try {
+        const move = getAIStrategy(view.self.aiStrategyId).chooseAction(view, rng);
+        return { status: 200, body: { success: true, move, rngState: rng.getState() } };
+    } catch (error) {
+        console.error('AI strategy failed to choose a move:', error);
+        return reject(500, 'The AI could not choose a move for that view.');
+    }
+};
@@ -0,0 +1,94 @@
+import { ActionResult, GameAction, GamePhase, GameState, ShipDeployment } from '../types';
+import { applyAction, deployFleet, startGame } from '../services/gameLogic';
+import { projectStateForPlayer } from '../services/playerView';
+import { deployAIFleet, takeAITurn } from '../services/aiStrategies';
+import { createRng } from '../services/random';
+
+// The rules as a server applies them: every change to a hosted game goes through here, so clients
+// only ever submit fleets and actions, never game states.
+
+// A bound on the AI moves played in answer to one request, in case humans are out and the AIs can't finish the game.
+const MAX_AI_MOVES = 5000;
+
+export type DeployResult =
+    | { success: true; state: GameState }
+    | { success: false; error: string };
+
+const fail = (error: string): DeployResult => ({ success: false, error });
+
+const isShipDeployment = (value: unknown): value is ShipDeployment => {
+    if (typeof value !== 'object' || !value) return false;
+    const { shipName, placement } = value as { shipName?: unknown; placement?: unknown };
+    if (typeof shipName !== 'string' || typeof placement !== 'object' || !placement) return false;
+    const { x, y, isHorizontal } = placement as { x?: unknown; y?: unknown; isHorizontal?: unknown };
+    return Number.isInteger(x) && Number.isInteger(y) && typeof isHorizontal === 'boolean';
+};
+
+// Handing a device over between turns is up to the client; the hosted game itself stays in play.
+const skipHandover = (state: GameState): GameState =>
+    state.phase === GamePhase.TURN_TRANSITION ? { ...state, phase: GamePhase.PLAYING } : state;
+
+/**
+ * Plays AI turns until a human is up or the game is over.
+ */
+const playAITurns = (gameState: GameState): GameState => {
+    let state = gameState;
+    for (let i = 0; i < MAX_AI_MOVES; i++) {
+        const current = state.players.find(p => p.id === state.currentPlayerId);
+        if (state.phase !== GamePhase.PLAYING || !current?.isAI) break;
+        if (!state.hasActedThisTurn) {
+            // A hit earns another action, so the AI keeps acting until its turn is spent.
+            const acted = takeAITurn(state);
+            if (acted === state) break;
+            state = acted;
+            continue;
+        }
+        const ended = applyAction(state, { type: 'END_TURN', playerId: current.id });
+        if (ended.success === false) break;
+        state = skipHandover(ended.state);
+    }
+    return state;
+};
+
+/**
+ * What a player is sent of a hosted game: their own view while it is played, and the whole game,
+ * record included, once it is over.
+ */
+export const viewGameFor = (gameState: GameState, playerId: string): GameState =>
+    gameState.phase === GamePhase.GAME_OVER ? gameState : projectStateForPlayer(gameState, playerId);
+
+/**
+ * Deploys a human player's fleet. Once every human is ready the AI fleets are placed, as in a local
+ * game, and play begins, with any AI turns before the first human's already played.
+ * @param deployments The placements as received, checked here before use.
+ */
+export const deployPlayerFleet = (gameState: GameState, playerId: string, deployments: unknown): DeployResult => {
+    if (gameState.phase !== GamePhase.SETUP) return fail('There is no fleet to deploy right now.');
+    const player = gameState.players.find(p => p.id === playerId);
+    if (!player || player.isAI) return fail('There is no fleet to deploy right now.');
+    if (player.isReady) return fail('Your fleet is already deployed.');
+
+    const deployed = Array.isArray(deployments) && deployments.every(isShipDeployment)
+        ? deployFleet(player, deployments, gameState.gridDimensions)
+        : null;
+    if (!deployed) return fail("That fleet layout isn't valid.");
+
+    const players = gameState.players.map(p => p.id === deployed.id ? deployed : p);
+    if (players.some(p => !p.isAI && !p.isReady)) return { success: true, state: { ...gameState, players } };
+
+    const rng = createRng(gameState.rngState);
+    const deployedPlayers = players.map(p => p.isAI ? deployAIFleet(p, gameState, rng) : p);
+    const started = startGame({ ...gameState, players: deployedPlayers, rngState: rng.getState() }, deployedPlayers[0].id);
+    return { success: true, state: playAITurns(started) };
+};
+
+/**
+ * Applies an action a player submitted, then plays the AI turns that follow it.
+ * @param playerId The player the submitting client is seated as; players only ever act for themselves.
+ */
+export const applyPlayerAction = (gameState: GameState, playerId: string, action: GameAction): ActionResult => {
+    if (action?.playerId !== playerId) return { success: false, reason: 'NOT_YOUR_TURN' };
+    const result = applyAction(gameState, action);
+    if (result.success === false) return result;
+    return { success: true, state: playAITurns(skipHandover(result.state)) };
+};
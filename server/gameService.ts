@@ -0,0 +1,149 @@
+import { AIDifficulty, GameConfig, GameMode, GameServiceRequest, GameServiceResponse, GameState, HostedSeat, SeatConfig } from '../types';
+import { getGameConfig } from '../constants';
+import { createGame, getRejectionMessage } from '../services/gameLogic';
+import { isGameConfigShape, validateGameConfig } from '../services/customRules';
+import { createSeatPlayers, listAIStrategies } from '../services/aiStrategies';
+import { generateSeed } from '../services/random';
+import { applyPlayerAction, deployPlayerFleet, viewGameFor } from './gameHost';
+
+const MIN_SEATS = 2;
+const MAX_SEATS = 4;
+const MAX_NAME_LENGTH = 24;
+const AI_DIFFICULTIES: AIDifficulty[] = ['EASY', 'NORMAL', 'HARD', 'EXPERT'];
+
+// A game as the server keeps it: the full state, and which token acts for which player.
+export interface HostedGame {
+    game: GameState;
+    seats: HostedSeat[];
+}
+
+// Where hosted games live between requests. Async so that a persistent store can stand in for the in-memory one.
+export interface GameStore {
+    load: (gameId: string) => Promise<HostedGame | null>;
+    save: (hosted: HostedGame) => Promise<void>;
+}
+
+// An HTTP status with the response body, for whichever transport carries it.
+export interface GameServiceReply {
+    status: number;
+    body: GameServiceResponse;
+}
+
+/**
+ * Keeps hosted games in memory, as JSON so that no caller can change a stored game in place.
+ * Games last as long as the process, which is enough for `netlify dev` and local harnesses.
+ */
+export const createMemoryGameStore = (): GameStore => {
+    const games = new Map<string, string>();
+    return {
+        load: async (gameId) => {
+            const stored = games.get(gameId);
+            return stored ? JSON.parse(stored) : null;
+        },
+        save: async (hosted) => {
+            games.set(hosted.game.gameId, JSON.stringify(hosted));
+        },
+    };
+};
+
+const reject = (status: number, error: string): GameServiceReply => ({ status, body: { success: false, error } });
+
+/**
+ * Checks the seats of a new game the way the lobby does, since the request may not come from it.
+ * @returns A message for the first problem found, or null if the seats are fine.
+ */
+const checkSeats = (seats: SeatConfig[]): string | null => {
+    if (!Array.isArray(seats) || seats.length < MIN_SEATS || seats.length > MAX_SEATS) return `A game needs ${MIN_SEATS} to ${MAX_SEATS} seats.`;
+    const strategyIds = listAIStrategies().map(strategy => strategy.id);
+    for (const seat of seats) {
+        if (typeof seat?.name !== 'string' || !seat.name.trim() || seat.name.trim().length > MAX_NAME_LENGTH) {
+            return `Every commander needs a name of up to ${MAX_NAME_LENGTH} characters.`;
+        }
+        if (typeof seat.isAI !== 'boolean') return 'Every seat must say whether an AI plays it.';
+        if (seat.difficulty !== undefined && !AI_DIFFICULTIES.includes(seat.difficulty)) return `Unknown AI difficulty "${seat.difficulty}".`;
+        if (seat.strategyId !== undefined && !strategyIds.includes(seat.strategyId)) return `Unknown AI strategy "${seat.strategyId}".`;
+    }
+    const names = seats.map(seat => seat.name.trim());
+    if (new Set(names).size !== names.length) return 'Commander names must be unique.';
+    if (seats.every(seat => seat.isAI)) return 'At least one commander must be human.';
+
+    // Teams are two against two, as in the lobby.
+    const teamIds = seats.map(seat => seat.teamId);
+    if (teamIds.some(Boolean)) {
+        const teams = new Set(teamIds);
+        const isTwoAgainstTwo = seats.length === 4 && teams.size === 2 && [...teams].every(team => team && teamIds.filter(t => t === team).length === 2);
+        if (!isTwoAgainstTwo) return 'Team games need two teams of two.';
+    }
+    return null;
+};
+
+const createHostedGame = (seats: SeatConfig[], gameMode: GameMode, seed?: string, customRules?: GameConfig): HostedGame | string => {
+    if (gameMode !== 'TACTICAL' && gameMode !== 'CLASSIC') return 'Unknown game mode.';
+    const seatProblem = checkSeats(seats);
+    if (seatProblem) return seatProblem;
+    if (customRules !== undefined && !isGameConfigShape(customRules)) return 'The custom rules need a grid size and a list of ships.';
+    const config = getGameConfig(gameMode, customRules);
+    const ruleErrors = validateGameConfig(config, gameMode);
+    if (ruleErrors.length > 0) return ruleErrors[0];
+
+    const players = createSeatPlayers(seats, config, gameMode);
+    const gameSeed = typeof seed === 'string' && seed.trim() ? seed.trim() : generateSeed();
+    return {
+        game: createGame(players, config.gridDimensions, config.shipsConfig, gameMode, gameSeed),
+        seats: players
+            .filter(player => !player.isAI)
+            .map(player => ({ playerId: player.id, playerName: player.name, seatToken: crypto.randomUUID() })),
+    };
+};
+
+const handleRequest = async (store: GameStore, request: GameServiceRequest): Promise<GameServiceReply> => {
+    if (request.type === 'CREATE_GAME') {
+        const hosted = createHostedGame(request.seats, request.gameMode, request.seed, request.customRules);
+        if (typeof hosted === 'string') return reject(400, hosted);
+        await store.save(hosted);
+        return { status: 201, body: { success: true, game: viewGameFor(hosted.game, hosted.seats[0].playerId), seats: hosted.seats } };
+    }
+
+    if (request.type !== 'DEPLOY_FLEET' && request.type !== 'GAME_ACTION' && request.type !== 'GET_GAME') {
+        return reject(400, 'Unknown request type.');
+    }
+    const hosted = typeof request.gameId === 'string' ? await store.load(request.gameId) : null;
+    if (!hosted) return reject(404, 'No game with that ID.');
+    const seat = hosted.seats.find(s => s.seatToken === request.seatToken);
+    if (!seat) return reject(403, 'That seat token is not valid for this game.');
+
+    switch (request.type) {
+        case 'GET_GAME':
+            return { status: 200, body: { success: true, game: viewGameFor(hosted.game, seat.playerId) } };
+        case 'DEPLOY_FLEET': {
+            const result = deployPlayerFleet(hosted.game, seat.playerId, request.deployments);
+            if (result.success === false) return reject(409, result.error);
+            await store.save({ ...hosted, game: result.state });
+            return { status: 200, body: { success: true, game: viewGameFor(result.state, seat.playerId) } };
+        }
+        case 'GAME_ACTION': {
+            const result = applyPlayerAction(hosted.game, seat.playerId, request.action);
+            if (result.success === false) {
+                return { status: 409, body: { success: false, error: getRejectionMessage(result.reason), reason: result.reason } };
+            }
+            await store.save({ ...hosted, game: result.state });
+            return { status: 200, body: { success: true, game: viewGameFor(result.state, seat.playerId) } };
+        }
+    }
+};
+
+/**
+ * Handles one request to the game-action endpoint against the games in `store`. Every answer
+ * carries an HTTP status: 400 for a malformed request, 403 for a wrong seat token, 404 for an
+ * unknown game and 409 for a move the rules refuse.
+ * @param request The parsed request body, checked here before use.
+ */
+export const handleGameRequest = async (store: GameStore, request: GameServiceRequest): Promise<GameServiceReply> => {
+    if (typeof request?.type !== 'string') return reject(400, 'Requests must have a type.');
+    try {
+        return await handleRequest(store, request);
+    } catch (error) {
+        console.error(`Failed to handle ${request.type}:`, error);
+        return reject(500, 'The server could not handle that request.');
+    }
+};
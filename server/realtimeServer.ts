@@ -0,0 +1,38 @@
+import { WebSocketServer } from 'ws';
+import { RealtimeServerMessage } from '../types';
+import { handleClientMessage, handleDisconnect, RoomClient } from './rooms';
+
+// The reference server for online games: a thin WebSocket transport around `rooms`.
+// Run it with `npm run server`; it listens on PORT, or 8787 by default.
+const PORT = Number(process.env.PORT) || 8787;
+// Dead connections are found by pinging every client and dropping those that didn't answer the last ping.
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+const server = new WebSocketServer({ port: PORT });
+
+server.on('connection', (socket) => {
+    let isAlive = true;
+    socket.on('pong', () => { isAlive = true; });
+    const heartbeat = setInterval(() => {
+        if (!isAlive) {
+            socket.terminate();
+            return;
+        }
+        isAlive = false;
+        socket.ping();
+    }, HEARTBEAT_INTERVAL_MS);
+
+    const client: RoomClient = {
+        send: (message: RealtimeServerMessage) => {
+            if (socket.readyState === socket.OPEN) socket.send(JSON.stringify(message));
+        },
+    };
+    socket.on('message', (data) => handleClientMessage(client, data.toString()));
+    socket.on('close', () => {
+        clearInterval(heartbeat);
+        handleDisconnect(client);
+    });
+    socket.on('error', (error) => console.warn('Connection error:', error.message));
+});
+
+server.on('listening', () => console.log(`Battleship realtime server listening on ws://localhost:${PORT}`));
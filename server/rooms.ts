@@ -0,0 +1,294 @@
+import { GameConfig, GameMode, GameState, OnlineSeat, RealtimeClientMessage, RealtimeServerMessage, Spectator, SpectatorViewMode } from '../types';
+import { getGameConfig } from '../constants';
+import { createGame, createInitialPlayer, markCoached } from '../services/gameLogic';
+import { isGameConfigShape, validateGameConfig } from '../services/customRules';
+import { generateSeed } from '../services/random';
+import { createSpectatorView, DEFAULT_SPECTATOR_DELAY_TURNS, MAX_SPECTATOR_DELAY_TURNS } from '../services/spectator';
+import { applyPlayerAction, deployPlayerFleet, viewGameFor } from './gameHost';
+
+// Online games are one on one: the game starts as soon as the second player joins.
+const ROOM_SIZE = 2;
+// Room codes leave out letters and digits that are easy to mix up when read out.
+const ROOM_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const ROOM_CODE_LENGTH = 5;
+const MAX_NAME_LENGTH = 24;
+const MAX_SPECTATORS = 20;
+// How long a room outlives its last connection, so players can come back after a dropped connection.
+const IDLE_ROOM_TTL_MS = 10 * 60 * 1000;
+
+// One connection to the server, as the transport sees it.
+export interface RoomClient {
+    send: (message: RealtimeServerMessage) => void;
+    seat?: OnlineSeat;
+    // Set instead of `seat` while the client watches a game.
+    watching?: { roomCode: string; spectatorId: string };
+}
+
+interface RoomSeat {
+    playerId: string;
+    playerName: string;
+    seatToken: string;
+    client: RoomClient | null;
+}
+
+interface RoomSpectator {
+    spectator: Spectator;
+    view: SpectatorViewMode;
+    client: RoomClient;
+}
+
+interface Room {
+    code: string;
+    gameMode: GameMode;
+    config: GameConfig;
+    seats: RoomSeat[];
+    // Set once every seat is taken.
+    game: GameState | null;
+    spectators: RoomSpectator[];
+    // How many turns behind the game the omniscient spectator view is kept, as the host chose.
+    spectatorDelayTurns: number;
+    // The omniscient view of the game as it now stands, shared by every spectator using it, since building it replays the game.
+    omniscientView?: { source: GameState; game: GameState };
+    idleTimer?: ReturnType<typeof setTimeout>;
+}
+
+const rooms = new Map<string, Room>();
+
+const createRoomCode = (): string => {
+    let code: string;
+    do {
+        const bytes = crypto.getRandomValues(new Uint8Array(ROOM_CODE_LENGTH));
+        code = Array.from(bytes, byte => ROOM_CODE_ALPHABET[byte % ROOM_CODE_ALPHABET.length]).join('');
+    } while (rooms.has(code));
+    return code;
+};
+
+const cleanName = (name: unknown): string | null => {
+    if (typeof name !== 'string' || !name.trim()) return null;
+    return name.trim().slice(0, MAX_NAME_LENGTH);
+};
+
+const sendGame = (seat: RoomSeat, game: GameState) => seat.client?.send({ type: 'GAME_STATE', game: viewGameFor(game, seat.playerId) });
+
+const viewGameForSpectator = (room: Room, watcher: RoomSpectator, game: GameState): GameState => {
+    if (watcher.view.type !== 'OMNISCIENT') return createSpectatorView(game, watcher.view, room.spectatorDelayTurns);
+    if (room.omniscientView?.source !== game) {
+        room.omniscientView = { source: game, game: createSpectatorView(game, watcher.view, room.spectatorDelayTurns) };
+    }
+    return room.omniscientView.game;
+};
+
+const sendSpectatorGame = (room: Room, watcher: RoomSpectator) => {
+    if (room.game) watcher.client.send({ type: 'GAME_STATE', game: viewGameForSpectator(room, watcher, room.game) });
+};
+
+const broadcastGame = (room: Room) => {
+    if (!room.game) return;
+    room.seats.forEach(seat => sendGame(seat, room.game!));
+    room.spectators.forEach(watcher => sendSpectatorGame(room, watcher));
+};
+
+const notifyOthers = (room: Room, seat: RoomSeat, isConnected: boolean) => {
+    room.seats
+        .filter(other => other !== seat)
+        .forEach(other => other.client?.send({ type: 'PLAYER_CONNECTION', playerName: seat.playerName, isConnected }));
+};
+
+const takeSeat = (client: RoomClient, room: Room, seat: RoomSeat) => {
+    if (seat.client && seat.client !== client) seat.client.seat = undefined;
+    seat.client = client;
+    client.seat = { roomCode: room.code, playerId: seat.playerId, seatToken: seat.seatToken };
+    clearTimeout(room.idleTimer);
+    client.send({ type: 'ROOM_JOINED', seat: client.seat });
+};
+
+const addSeat = (client: RoomClient, room: Room, playerName: string) => {
+    const seat: RoomSeat = { playerId: crypto.randomUUID(), playerName, seatToken: crypto.randomUUID(), client: null };
+    room.seats.push(seat);
+    takeSeat(client, room, seat);
+};
+
+const openGame = (room: Room) => {
+    const { gridDimensions, shipsConfig } = room.config;
+    const players = room.seats.map(seat => createInitialPlayer(seat.playerId, seat.playerName, false, shipsConfig, gridDimensions, room.gameMode));
+    room.game = createGame(players, gridDimensions, shipsConfig, room.gameMode, generateSeed());
+};
+
+const findRoom = (client: RoomClient): { room: Room; seat: RoomSeat } | null => {
+    const room = client.seat && rooms.get(client.seat.roomCode);
+    const seat = room?.seats.find(s => s.client === client);
+    return room && seat ? { room, seat } : null;
+};
+
+const findWatchedRoom = (client: RoomClient): { room: Room; watcher: RoomSpectator } | null => {
+    const room = client.watching && rooms.get(client.watching.roomCode);
+    const watcher = room?.spectators.find(s => s.client === client);
+    return room && watcher ? { room, watcher } : null;
+};
+
+// Spectators follow one of the room's players or watch every fleet; anything else is refused.
+const isSpectatorView = (room: Room, view: SpectatorViewMode): boolean =>
+    view?.type === 'OMNISCIENT' || (view?.type === 'FOLLOW' && room.seats.some(seat => seat.playerId === view.playerId));
+
+const cleanDelay = (delayTurns: unknown): number | null => {
+    if (delayTurns === undefined) return DEFAULT_SPECTATOR_DELAY_TURNS;
+    return Number.isInteger(delayTurns) && (delayTurns as number) >= 1 && (delayTurns as number) <= MAX_SPECTATOR_DELAY_TURNS ? delayTurns as number : null;
+};
+
+const handleMessage = (client: RoomClient, message: RealtimeClientMessage) => {
+    if ((message.type === 'CREATE_ROOM' || message.type === 'JOIN_ROOM' || message.type === 'WATCH_ROOM') && (client.seat || client.watching)) {
+        return client.send({ type: 'JOIN_FAILED', message: 'Leave your current game first.' });
+    }
+    if ((message.type === 'DEPLOY_FLEET' || message.type === 'GAME_ACTION' || message.type === 'COACH_USED') && client.watching) {
+        return client.send({ type: 'ERROR', message: "Spectators can watch the game but not play in it." });
+    }
+    switch (message.type) {
+        case 'CREATE_ROOM': {
+            const playerName = cleanName(message.playerName);
+            if (!playerName) return client.send({ type: 'JOIN_FAILED', message: 'Enter a callsign first.' });
+            if (message.gameMode !== 'TACTICAL' && message.gameMode !== 'CLASSIC') {
+                return client.send({ type: 'JOIN_FAILED', message: 'Unknown game mode.' });
+            }
+            if (message.customRules !== undefined && !isGameConfigShape(message.customRules)) {
+                return client.send({ type: 'JOIN_FAILED', message: 'The custom rules need a grid size and a list of ships.' });
+            }
+            const config = getGameConfig(message.gameMode, message.customRules);
+            const ruleErrors = validateGameConfig(config, message.gameMode);
+            if (ruleErrors.length > 0) return client.send({ type: 'JOIN_FAILED', message: ruleErrors[0] });
+            const spectatorDelayTurns = cleanDelay(message.spectatorDelayTurns);
+            if (spectatorDelayTurns === null) {
+                return client.send({ type: 'JOIN_FAILED', message: `The spectator delay must be 1 to ${MAX_SPECTATOR_DELAY_TURNS} turns.` });
+            }
+
+            const room: Room = { code: createRoomCode(), gameMode: message.gameMode, config, seats: [], game: null, spectators: [], spectatorDelayTurns };
+            rooms.set(room.code, room);
+            addSeat(client, room, playerName);
+            return;
+        }
+        case 'JOIN_ROOM': {
+            const playerName = cleanName(message.playerName);
+            if (!playerName) return client.send({ type: 'JOIN_FAILED', message: 'Enter a callsign first.' });
+            const room = rooms.get(String(message.roomCode).trim().toUpperCase());
+            if (!room) return client.send({ type: 'JOIN_FAILED', message: 'No game is waiting under that room code.' });
+            if (room.seats.length >= ROOM_SIZE) return client.send({ type: 'JOIN_FAILED', message: 'That game is already full.' });
+            if (room.seats.some(seat => seat.playerName.toLowerCase() === playerName.toLowerCase())) {
+                return client.send({ type: 'JOIN_FAILED', message: 'That callsign is already taken in this game.' });
+            }
+            addSeat(client, room, playerName);
+            if (room.seats.length === ROOM_SIZE) {
+                openGame(room);
+                broadcastGame(room);
+            }
+            return;
+        }
+        case 'REJOIN_ROOM': {
+            const room = rooms.get(message.seat?.roomCode);
+            const seat = room?.seats.find(s => s.playerId === message.seat.playerId && s.seatToken === message.seat.seatToken);
+            if (!room || !seat) return client.send({ type: 'JOIN_FAILED', message: 'That game is no longer available.' });
+            takeSeat(client, room, seat);
+            notifyOthers(room, seat, true);
+            if (room.game) sendGame(seat, room.game);
+            return;
+        }
+        case 'DEPLOY_FLEET': {
+            const seated = findRoom(client);
+            const game = seated?.room.game;
+            if (!seated || !game) return client.send({ type: 'ERROR', message: 'There is no fleet to deploy right now.' });
+            const result = deployPlayerFleet(game, seated.seat.playerId, message.deployments);
+            if (result.success === false) return client.send({ type: 'ERROR', message: result.error });
+            seated.room.game = result.state;
+            broadcastGame(seated.room);
+            return;
+        }
+        case 'GAME_ACTION': {
+            const seated = findRoom(client);
+            const game = seated?.room.game;
+            if (!seated || !game) return client.send({ type: 'ERROR', message: 'The game has not started yet.' });
+            const result = applyPlayerAction(game, seated.seat.playerId, message.action);
+            if (result.success === false) return client.send({ type: 'ACTION_REJECTED', reason: result.reason });
+            seated.room.game = result.state;
+            broadcastGame(seated.room);
+            return;
+        }
+        case 'COACH_USED': {
+            // Players only ever see their own view of the game, so the note goes in the server's record.
+            const seated = findRoom(client);
+            const game = seated?.room.game;
+            if (!seated || !game) return client.send({ type: 'ERROR', message: 'The game has not started yet.' });
+            seated.room.game = markCoached(game, seated.seat.playerId);
+            return;
+        }
+        case 'WATCH_ROOM': {
+            const spectatorName = cleanName(message.spectatorName);
+            if (!spectatorName) return client.send({ type: 'JOIN_FAILED', message: 'Enter a callsign first.' });
+            const room = rooms.get(String(message.roomCode).trim().toUpperCase());
+            if (!room) return client.send({ type: 'JOIN_FAILED', message: 'No game is being played under that room code.' });
+            if (room.spectators.length >= MAX_SPECTATORS) return client.send({ type: 'JOIN_FAILED', message: 'That game has all the spectators it can take.' });
+            const view: SpectatorViewMode = message.view && isSpectatorView(room, message.view) ? message.view : { type: 'OMNISCIENT' };
+
+            const watcher: RoomSpectator = { spectator: { id: crypto.randomUUID(), name: spectatorName }, view, client };
+            room.spectators.push(watcher);
+            client.watching = { roomCode: room.code, spectatorId: watcher.spectator.id };
+            client.send({ type: 'WATCHING', roomCode: room.code, spectator: watcher.spectator, view, delayTurns: room.spectatorDelayTurns });
+            sendSpectatorGame(room, watcher);
+            return;
+        }
+        case 'SET_SPECTATOR_VIEW': {
+            const watched = findWatchedRoom(client);
+            if (!watched) return client.send({ type: 'ERROR', message: 'You are not watching a game.' });
+            if (!isSpectatorView(watched.room, message.view)) return client.send({ type: 'ERROR', message: 'There is no such view of this game.' });
+            watched.watcher.view = message.view;
+            sendSpectatorGame(watched.room, watched.watcher);
+            return;
+        }
+        default:
+            client.send({ type: 'ERROR', message: 'Unknown message type.' });
+    }
+};
+
+/**
+ * Handles one message from a client. Malformed messages and unexpected failures are answered
+ * with an ERROR rather than allowed to take the server down.
+ * @param client The connection the message arrived on.
+ * @param raw The message as received, before parsing.
+ */
+export const handleClientMessage = (client: RoomClient, raw: string) => {
+    let message: RealtimeClientMessage;
+    try {
+        message = JSON.parse(raw);
+    } catch {
+        client.send({ type: 'ERROR', message: 'Messages must be JSON.' });
+        return;
+    }
+    if (typeof message?.type !== 'string') {
+        client.send({ type: 'ERROR', message: 'Messages must have a type.' });
+        return;
+    }
+    try {
+        handleMessage(client, message);
+    } catch (error) {
+        console.error(`Failed to handle ${message.type}:`, error);
+        client.send({ type: 'ERROR', message: 'The server could not handle that request.' });
+    }
+};
+
+/**
+ * Frees a client's seat when its connection closes. The seat is kept for its player to take back,
+ * and the room is closed once nobody has been connected to it for a while. Spectators just leave.
+ */
+export const handleDisconnect = (client: RoomClient) => {
+    const watched = findWatchedRoom(client);
+    client.watching = undefined;
+    if (watched) watched.room.spectators = watched.room.spectators.filter(s => s !== watched.watcher);
+
+    const seated = findRoom(client);
+    client.seat = undefined;
+    if (!seated) return;
+    const { room, seat } = seated;
+    seat.client = null;
+    notifyOthers(room, seat, false);
+    if (room.seats.every(s => !s.client)) {
+        clearTimeout(room.idleTimer);
+        room.idleTimer = setTimeout(() => rooms.delete(room.code), IDLE_ROOM_TTL_MS);
+    }
+};
@@ -0,0 +1,169 @@
+import { AIPacing, AIWorkerRequest, AIWorkerResponse, GameState } from '../types';
+import { takeAITurn, takeQuickAITurn } from './aiStrategies';
+
+// How long the UI waits before an AI acts and before it ends its turn. The AI thinks during the first wait, not after it.
+export const AI_PACING_DELAYS: Record<AIPacing, { beforeAction: number; beforeEndTurn: number }> = {
+    INSTANT: { beforeAction: 0, beforeEndTurn: 0 },
+    FAST: { beforeAction: 500, beforeEndTurn: 300 },
+    NORMAL: { beforeAction: 1500, beforeEndTurn: 1000 },
+    SLOW: { beforeAction: 3000, beforeEndTurn: 2000 },
+};
+
+export const AI_PACING_LABELS: Record<AIPacing, string> = {
+    INSTANT: 'Instant',
+    FAST: 'Fast',
+    NORMAL: 'Normal',
+    SLOW: 'Slow',
+};
+
+// The thinking times offered in settings, in ms.
+export const AI_TIME_BUDGETS = [1000, 2000, 5000, 10000];
+
+// A move requested from the AI. `result` never settles once the request is cancelled, and rejects
+// only if the AI couldn't play even a quick shot.
+export interface AITurnRequest {
+    result: Promise<GameState>;
+    cancel: () => void;
+}
+
+interface PendingTurn {
+    gameState: GameState;
+    resolve: (state: GameState) => void;
+    reject: (error: unknown) => void;
+    timer: ReturnType<typeof setTimeout>;
+}
+
+let worker: Worker | null = null;
+// Set once the worker fails to start or crashes; from then on the AI thinks on the main thread.
+let isWorkerBroken = false;
+let nextRequestId = 1;
+const pending = new Map<number, PendingTurn>();
+
+const settle = (requestId: number, state: GameState) => {
+    const turn = pending.get(requestId);
+    if (!turn) return;
+    clearTimeout(turn.timer);
+    pending.delete(requestId);
+    turn.resolve(state);
+};
+
+/**
+ * Works out a move on this thread. If the strategy throws, the AI plays a quick shot instead.
+ */
+const takeAITurnLocally = (gameState: GameState): GameState => {
+    try {
+        return takeAITurn(gameState);
+    } catch (error) {
+        console.warn("AI strategy failed; playing a quick move:", error);
+        return takeQuickAITurn(gameState);
+    }
+};
+
+/**
+ * Ends a request by working out a move on this thread, or fails it if no move can be played.
+ */
+const settleLocally = (requestId: number, play: (state: GameState) => GameState) => {
+    const turn = pending.get(requestId);
+    if (!turn) return;
+    try {
+        settle(requestId, play(turn.gameState));
+    } catch (error) {
+        clearTimeout(turn.timer);
+        pending.delete(requestId);
+        turn.reject(error);
+    }
+};
+
+/**
+ * Ends every request the worker can no longer answer, by working out a move on this thread.
+ */
+const settleAllLocally = (play: (state: GameState) => GameState) => {
+    [...pending.keys()].forEach(requestId => settleLocally(requestId, play));
+};
+
+const stopWorker = () => {
+    worker?.terminate();
+    worker = null;
+};
+
+const getWorker = (): Worker | null => {
+    if (worker || isWorkerBroken) return worker;
+    if (typeof Worker === 'undefined') {
+        isWorkerBroken = true;
+        return null;
+    }
+    try {
+        worker = new Worker(new URL('./aiWorker.ts', import.meta.url), { type: 'module' });
+    } catch (error) {
+        console.warn("Could not start the AI worker; the AI will think on the main thread:", error);
+        isWorkerBroken = true;
+        return null;
+    }
+    worker.onmessage = (event: MessageEvent<AIWorkerResponse>) => {
+        const response = event.data;
+        // Cancelled, or already answered with a quick move.
+        if (!pending.has(response.requestId)) return;
+        if (response.type === 'FAILED') {
+            console.warn("AI worker could not take the turn; retrying on the main thread:", response.error);
+            settleLocally(response.requestId, takeAITurnLocally);
+        } else {
+            settle(response.requestId, response.gameState);
+        }
+    };
+    worker.onerror = (event) => {
+        console.warn("AI worker crashed; the AI will think on the main thread:", event.message);
+        isWorkerBroken = true;
+        stopWorker();
+        settleAllLocally(takeAITurnLocally);
+    };
+    return worker;
+};
+
+/**
+ * Asks the AI whose turn it is for its move. The AI thinks in a Web Worker so that heavy
+ * strategies don't freeze the UI. If it hasn't answered within `budgetMs` the worker is
+ * replaced, since a strategy can't be interrupted, and the AI plays a quick shot instead; every
+ * other request still waiting on that worker gets one too.
+ * Where workers aren't available the AI thinks on the main thread with no time limit. Wherever it
+ * thinks, a strategy that throws is answered with a quick shot.
+ * @returns The state after the AI's action, or the same state if it couldn't act.
+ */
+export const requestAITurn = (gameState: GameState, budgetMs: number): AITurnRequest => {
+    const aiWorker = getWorker();
+    if (!aiWorker) {
+        let isCancelled = false;
+        const result = new Promise<GameState>((resolve, reject) => setTimeout(() => {
+            if (isCancelled) return;
+            try {
+                resolve(takeAITurnLocally(gameState));
+            } catch (error) {
+                reject(error);
+            }
+        }, 0));
+        return { result, cancel: () => { isCancelled = true; } };
+    }
+
+    const requestId = nextRequestId++;
+    const result = new Promise<GameState>((resolve, reject) => {
+        const timer = setTimeout(() => {
+            console.warn(`AI ran past its ${budgetMs} ms budget; playing a quick move.`);
+            stopWorker();
+            settleAllLocally(takeQuickAITurn);
+        }, budgetMs);
+        pending.set(requestId, { gameState, resolve, reject, timer });
+    });
+    const post = (message: AIWorkerRequest) => aiWorker.postMessage(message);
+    post({ type: 'TAKE_TURN', requestId, gameState });
+
+    return {
+        result,
+        cancel: () => {
+            const turn = pending.get(requestId);
+            if (!turn) return;
+            clearTimeout(turn.timer);
+            pending.delete(requestId);
+            // The worker may already have been replaced after a timeout; a new one never saw this request.
+            if (worker === aiWorker) post({ type: 'CANCEL', requestId });
+        },
+    };
+};
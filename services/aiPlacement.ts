@@ -0,0 +1,155 @@
+import { GameConfig, Grid, PlacementStyle, Ship, ShipConfig, ShipDeployment, ShipPlacement } from '../types';
+import { canPlaceShip, createEmptyGrid, placeAllShipsRandomly, placeShip } from './gameLogic';
+import { Rng } from './random';
+
+type Dimensions = { rows: number; cols: number };
+type Cell = { x: number; y: number };
+type Candidate = { placement: ShipPlacement; cells: Cell[]; score: number };
+
+// Each ship goes in one of the best-scoring spots, drawn from this share of its legal spots,
+// so the same style doesn't keep producing the same board.
+const TOP_SHARE = 0.15;
+const MAX_ATTEMPTS = 20;
+
+export const PLACEMENT_STYLES: PlacementStyle[] = ['EDGES', 'SPREAD', 'CLUSTERED', 'ANTI_DENSITY'];
+
+const shipCells = (length: number, { x, y, isHorizontal }: ShipPlacement): Cell[] =>
+    Array.from({ length }, (_, i) => ({ x: x + (isHorizontal ? i : 0), y: y + (isHorizontal ? 0 : i) }));
+
+const isOnEdge = ({ x, y }: Cell, { rows, cols }: Dimensions) =>
+    x === 0 || y === 0 || x === cols - 1 || y === rows - 1;
+
+// Chebyshev distance, so diagonal neighbours count as touching.
+const distance = (a: Cell, b: Cell) => Math.max(Math.abs(a.x - b.x), Math.abs(a.y - b.y));
+
+/**
+ * Turns deployed ships back into the placements that produced them.
+ */
+export const toShipDeployments = (ships: Ship[]): ShipDeployment[] => ships.map(ship => ({
+    shipName: ship.name,
+    placement: {
+        x: ship.positions[0].x,
+        y: ship.positions[0].y,
+        isHorizontal: ship.positions.length < 2 || ship.positions[0].y === ship.positions[1].y,
+    },
+}));
+
+/**
+ * How many placements of the fleet's ships cover each square of an empty board. A probability
+ * hunter opening a game fires at the highest counts first.
+ */
+const buildOpeningDensity = (shipsConfig: ShipConfig[], dims: Dimensions): number[][] => {
+    const density = Array.from({ length: dims.rows }, () => Array(dims.cols).fill(0));
+    shipsConfig.forEach(ship => {
+        for (let y = 0; y < dims.rows; y++) {
+            for (let x = 0; x < dims.cols; x++) {
+                [true, false].forEach(isHorizontal => {
+                    const cells = shipCells(ship.length, { x, y, isHorizontal });
+                    if (cells.every(c => c.x < dims.cols && c.y < dims.rows)) cells.forEach(c => density[c.y][c.x]++);
+                });
+            }
+        }
+    });
+    return density;
+};
+
+/**
+ * Scores a spot for a ship under a style; higher is better.
+ * @param placed Squares taken by the ships already deployed.
+ */
+const scorePlacement = (style: PlacementStyle, cells: Cell[], placed: Cell[], density: number[][], dims: Dimensions): number => {
+    switch (style) {
+        case 'EDGES':
+            return cells.filter(c => isOnEdge(c, dims)).length / cells.length;
+        case 'SPREAD':
+            // Keep as far as possible from the rest of the fleet, so one find doesn't lead to the next.
+            return placed.length === 0 ? 0 : Math.min(...cells.flatMap(c => placed.map(p => distance(c, p))));
+        case 'CLUSTERED':
+            // Pack ships side by side, so the hits around a sunk ship keep baiting shots into its neighbours.
+            return cells.reduce((touching, c) => touching + placed.filter(p => distance(c, p) === 1).length, 0);
+        case 'ANTI_DENSITY':
+            return -cells.reduce((sum, c) => sum + density[c.y][c.x], 0) / cells.length;
+        default:
+            return 0;
+    }
+};
+
+/**
+ * Lists every legal spot for a ship, best first. Ties are shuffled so they don't favour one corner.
+ * @param blocked Squares the ship must not cover or touch, on top of those already taken.
+ */
+const rankPlacements = (
+    style: PlacementStyle, ship: ShipConfig, grid: Grid, placed: Cell[],
+    blocked: Cell[], density: number[][], dims: Dimensions, rng: Rng
+): Candidate[] => {
+    const candidates: Candidate[] = [];
+    for (let y = 0; y < dims.rows; y++) {
+        for (let x = 0; x < dims.cols; x++) {
+            [true, false].forEach(isHorizontal => {
+                // A one-square ship is the same either way round.
+                if (ship.length === 1 && !isHorizontal) return;
+                if (!canPlaceShip(grid, ship, x, y, isHorizontal, dims)) return;
+                const placement = { x, y, isHorizontal };
+                const cells = shipCells(ship.length, placement);
+                if (cells.some(c => blocked.some(b => distance(c, b) <= 1))) return;
+                candidates.push({ placement, cells, score: scorePlacement(style, cells, placed, density, dims) });
+            });
+        }
+    }
+    for (let i = candidates.length - 1; i > 0; i--) {
+        const j = rng.nextInt(i + 1);
+        [candidates[i], candidates[j]] = [candidates[j], candidates[i]];
+    }
+    return candidates.sort((a, b) => b.score - a.score);
+};
+
+/**
+ * Tries to deploy the fleet in one pass, longest ship first so the big ones still find room.
+ * In Tactical fleets the Mothership, whose loss knocks the fleet out, goes first in the quietest
+ * spot an opening hunter would reach, and the rest of the fleet keeps clear of its neighbouring squares.
+ * @returns The deployment, or null if a ship was left without a legal spot.
+ */
+const tryPlaceFleet = (style: PlacementStyle, config: GameConfig, density: number[][], rng: Rng): ShipDeployment[] | null => {
+    const dims = config.gridDimensions;
+    let grid = createEmptyGrid(dims.rows, dims.cols);
+    const placed: Cell[] = [];
+    const guarded: Cell[] = [];
+    const deployments: ShipDeployment[] = [];
+
+    const mothership = config.shipsConfig.find(ship => ship.type === 'Mothership');
+    const order = [...config.shipsConfig].sort((a, b) => b.length - a.length);
+    if (mothership) order.splice(0, order.length, mothership, ...order.filter(ship => ship !== mothership));
+
+    for (const ship of order) {
+        const isMothership = ship === mothership;
+        let candidates = rankPlacements(isMothership ? 'ANTI_DENSITY' : style, ship, grid, placed, guarded, density, dims, rng);
+        // A tight custom grid may leave no room away from the Mothership; a touching spot beats no spot.
+        if (candidates.length === 0 && guarded.length > 0) {
+            candidates = rankPlacements(style, ship, grid, placed, [], density, dims, rng);
+        }
+        if (candidates.length === 0) return null;
+
+        const { placement, cells } = candidates[rng.nextInt(Math.max(1, Math.ceil(candidates.length * TOP_SHARE)))];
+        grid = placeShip(grid, { ...ship, positions: [], isSunk: false, isDamaged: false, hasBeenRepaired: false, hasBeenRelocated: false }, placement.x, placement.y, placement.isHorizontal).newGrid;
+        placed.push(...cells);
+        if (isMothership) guarded.push(...cells);
+        deployments.push({ shipName: ship.name, placement });
+    }
+    return deployments;
+};
+
+/**
+ * Chooses where an AI deploys its fleet.
+ * @param style The layout to aim for. RANDOM places ships uniformly, like the human Randomize button.
+ * @returns One placement per ship. Falls back to a uniform layout if the style can't fit the fleet.
+ */
+export const chooseFleetPlacement = (style: PlacementStyle, config: GameConfig, rng: Rng): ShipDeployment[] => {
+    if (style !== 'RANDOM') {
+        const density = buildOpeningDensity(config.shipsConfig, config.gridDimensions);
+        for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+            const deployments = tryPlaceFleet(style, config, density, rng);
+            if (deployments) return deployments;
+        }
+    }
+    return toShipDeployments(placeAllShipsRandomly(config.shipsConfig, config.gridDimensions, rng).ships);
+};
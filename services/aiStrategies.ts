@@ -0,0 +1,141 @@
+import { AIMove, AIReason, AIStrategy, AIView, GameConfig, GameMode, GameState, Player, SeatConfig } from '../types';
+import { applyAction, createInitialPlayer, deployFleet, placeAllShipsRandomly } from './gameLogic';
+import { chooseAITarget, getAIMove, getAITacticalMove, getQuickAIMove } from './geminiService';
+import { createAIView } from './aiView';
+import { chooseFleetPlacement, PLACEMENT_STYLES, toShipDeployments } from './aiPlacement';
+import { createRng, Rng } from './random';
+
+export const DEFAULT_AI_STRATEGY_ID = 'tactician';
+
+const strategies = new Map<string, AIStrategy>();
+
+/**
+ * Makes a strategy available to AI seats. Registering an ID again replaces the earlier strategy.
+ * Strategies belong in this module: the AI worker and the server only know the ones registered here.
+ */
+export const registerAIStrategy = (strategy: AIStrategy): void => {
+    strategies.set(strategy.id, strategy);
+};
+
+/**
+ * Every registered strategy, in the order it was registered.
+ */
+export const listAIStrategies = (): AIStrategy[] => [...strategies.values()];
+
+/**
+ * Looks up a strategy by ID. Games saved with a strategy that is no longer registered are
+ * played on by the default strategy.
+ */
+export const getAIStrategy = (id?: string): AIStrategy => {
+    const strategy = strategies.get(id ?? DEFAULT_AI_STRATEGY_ID);
+    if (strategy) return strategy;
+    console.warn(`AI strategy "${id}" is not registered; using the default strategy.`);
+    return strategies.get(DEFAULT_AI_STRATEGY_ID)!;
+};
+
+registerAIStrategy({
+    id: DEFAULT_AI_STRATEGY_ID,
+    name: 'Tactician',
+    description: 'The standard AI. Varies its deployment from game to game, then hunts according to its difficulty level.',
+    // A different layout style each game, so players can't learn where its ships will be.
+    chooseSetup: (config: GameConfig, rng: Rng) => chooseFleetPlacement(rng.pick(PLACEMENT_STYLES), config, rng),
+    chooseAction: (view, rng) => {
+        const opponent = chooseAITarget(view, rng);
+        if (!opponent) return { action: { type: 'END_TURN', playerId: view.self.id } };
+        if (view.gameMode === 'TACTICAL') return getAITacticalMove(view, opponent, rng);
+        const { x, y, rationale } = getAIMove(view, opponent, rng);
+        return { action: { type: 'FIRE_SHOT', playerId: view.self.id, targetId: opponent.id, x, y }, rationale };
+    },
+});
+
+/**
+ * Creates the players for a game's seats. AI seats that don't name a difficulty or strategy get the defaults.
+ */
+export const createSeatPlayers = (seats: SeatConfig[], config: GameConfig, gameMode: GameMode): Player[] =>
+    seats.map(seat => ({
+        ...createInitialPlayer(crypto.randomUUID(), seat.name.trim(), seat.isAI, config.shipsConfig, config.gridDimensions, gameMode),
+        ...(seat.teamId ? { teamId: seat.teamId } : {}),
+        ...(seat.isAI ? { aiDifficulty: seat.difficulty ?? 'NORMAL', aiStrategyId: seat.strategyId ?? DEFAULT_AI_STRATEGY_ID } : {}),
+    }));
+
+/**
+ * Deploys an AI player's fleet with its strategy. A deployment that breaks the rules is
+ * replaced by a random one, so a faulty bot can't stall the game.
+ * @param rng The engine's stream, so that the game seed reproduces the deployment.
+ */
+export const deployAIFleet = (player: Player, config: GameConfig, rng: Rng): Player => {
+    const strategy = getAIStrategy(player.aiStrategyId);
+    const deployed = deployFleet(player, strategy.chooseSetup(config, rng), config.gridDimensions);
+    if (deployed) return deployed;
+    console.warn(`AI strategy "${strategy.id}" chose an invalid deployment; deploying at random.`);
+    return deployFleet(player, toShipDeployments(placeAllShipsRandomly(config.shipsConfig, config.gridDimensions, rng).ships), config.gridDimensions)!;
+};
+
+/**
+ * Adds the reason for an AI's move to the game's AI reasoning, if its strategy gave one.
+ */
+const recordDecision = (state: GameState, turn: number, aiPlayer: Player, move: AIMove): GameState => {
+    if (!move.rationale) return state;
+    const targetId = move.action.type === 'FIRE_SHOT' ? move.action.targetId
+        : move.action.type === 'USE_SKILL' && 'targetId' in move.action.skill ? move.action.skill.targetId : undefined;
+    const decision = {
+        turn,
+        playerId: aiPlayer.id,
+        playerName: aiPlayer.name,
+        targetName: state.players.find(p => p.id === targetId && p.id !== aiPlayer.id)?.name,
+        rationale: move.rationale,
+    };
+    return { ...state, aiDecisions: [decision, ...(state.aiDecisions ?? [])] };
+};
+
+/**
+ * Fires a plain shot, aimed by `pickShot`, for an AI whose strategy's move can't be played.
+ * @param rng The AI's stream, as left by whatever it has drawn this turn.
+ */
+const playFallbackShot = (
+    gameState: GameState, aiPlayer: Player, view: AIView, rng: Rng,
+    pickShot: typeof getAIMove, reason: AIReason
+): GameState => {
+    const opponent = chooseAITarget(view, rng);
+    if (!opponent) return gameState;
+    const { x, y } = pickShot(view, opponent, rng);
+    const fallback: AIMove = {
+        action: { type: 'FIRE_SHOT', playerId: aiPlayer.id, targetId: opponent.id, x, y },
+        rationale: { reason, coords: { x, y } },
+    };
+    const result = applyAction({ ...gameState, aiRngState: rng.getState() }, fallback.action);
+    return result.success === true ? recordDecision(result.state, gameState.turn, aiPlayer, fallback) : gameState;
+};
+
+/**
+ * Plays one action for the AI whose turn it is. The strategy sees only the AI's redacted view
+ * and draws from the AI's own stream, which is saved back on the state. If the engine refuses
+ * the chosen action, the AI fires a plain shot instead. The reason for the move that was played
+ * is kept for the AI reasoning panel.
+ * @returns The state after the AI's action, or the same state if it couldn't act.
+ */
+export const takeAITurn = (gameState: GameState): GameState => {
+    const aiPlayer = gameState.players.find(p => p.id === gameState.currentPlayerId);
+    if (!aiPlayer?.isAI) return gameState;
+
+    const rng = createRng(gameState.aiRngState);
+    const view = createAIView(gameState, aiPlayer.id);
+
+    const move = getAIStrategy(aiPlayer.aiStrategyId).chooseAction(view, rng);
+    const result = applyAction({ ...gameState, aiRngState: rng.getState() }, move.action);
+    if (result.success === true) return recordDecision(result.state, gameState.turn, aiPlayer, move);
+    console.warn("AI move was refused, falling back to attack:", move.action, result.reason);
+    return playFallbackShot(gameState, aiPlayer, view, rng, getAIMove, 'FALLBACK');
+};
+
+/**
+ * Plays a quick shot for the AI whose turn it is without asking its strategy, for when the
+ * strategy has run past its time budget.
+ * @returns The state after the shot, or the same state if the AI couldn't act.
+ */
+export const takeQuickAITurn = (gameState: GameState): GameState => {
+    const aiPlayer = gameState.players.find(p => p.id === gameState.currentPlayerId);
+    if (!aiPlayer?.isAI) return gameState;
+    const rng = createRng(gameState.aiRngState);
+    return playFallbackShot(gameState, aiPlayer, createAIView(gameState, aiPlayer.id), rng, getQuickAIMove, 'OUT_OF_TIME');
+};
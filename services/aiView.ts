@@ -0,0 +1,45 @@
+import { AIView, GameState, OpponentView } from '../types';
+import { areAllies, createEmptyGrid } from './gameLogic';
+import { projectStateForPlayer, toPublicLogEntry } from './playerView';
+
+/**
+ * Builds the view of a game that an AI commander plays from. It is made from the AI's projection of
+ * the game, so the AI gets its own fleet in full, but enemy fleets only through its shot grids, the
+ * public log and the ships announced sunk, and can't aim at ships nobody has found.
+ * @param gameState The full game state.
+ * @param aiPlayerId The AI commander to build the view for.
+ */
+export const createAIView = (gameState: GameState, aiPlayerId: string): AIView => {
+    const projected = projectStateForPlayer(gameState, aiPlayerId);
+    const self = projected.players.find(p => p.id === aiPlayerId)!;
+    const { rows, cols } = projected.gridDimensions;
+    const log = projected.log.map(toPublicLogEntry);
+
+    const opponents: OpponentView[] = projected.players
+        .filter(p => p.id !== self.id && !areAllies(p, self))
+        .map(opponent => {
+            const sunkShipNames = log
+                .filter(entry => entry.result === 'SUNK_SHIP' && entry.targetId === opponent.id && entry.sunkShipName)
+                .map(entry => entry.sunkShipName!);
+            return {
+                id: opponent.id,
+                name: opponent.name,
+                teamId: opponent.teamId,
+                isEliminated: opponent.isEliminated,
+                shots: self.shots[opponent.id] || createEmptyGrid(rows, cols),
+                sunkShipNames,
+                afloatShips: projected.shipsConfig.filter(ship => !sunkShipNames.includes(ship.name)).map(ship => ({ ...ship })),
+            };
+        });
+
+    return {
+        self,
+        opponents,
+        gameMode: projected.gameMode,
+        gridDimensions: { rows, cols },
+        shipsConfig: projected.shipsConfig,
+        turn: projected.turn,
+        log,
+        ownHitLog: projected.hitLog?.[self.id] ?? {},
+    };
+};
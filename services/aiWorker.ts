@@ -0,0 +1,39 @@
+import { AIWorkerRequest, AIWorkerResponse, GameState } from '../types';
+import { listAIStrategies, takeAITurn } from './aiStrategies';
+
+// Runs AI turns off the main thread for `aiClient`. The worker has its own copy of the strategy
+// registry, holding only what `aiStrategies` registers. A turn for any other strategy is reported
+// as failed rather than played by the default strategy, so the main thread plays it instead.
+const ctx = self as unknown as Worker;
+
+// Requests received but not started yet, by request ID.
+const queued = new Map<number, GameState>();
+
+const respond = (response: AIWorkerResponse) => ctx.postMessage(response);
+
+const runTurn = (requestId: number) => {
+    const gameState = queued.get(requestId);
+    if (!gameState) return;
+    queued.delete(requestId);
+    const strategyId = gameState.players.find(p => p.id === gameState.currentPlayerId)?.aiStrategyId;
+    if (strategyId && !listAIStrategies().some(strategy => strategy.id === strategyId)) {
+        respond({ type: 'FAILED', requestId, error: `AI strategy "${strategyId}" is not registered in the worker.` });
+        return;
+    }
+    try {
+        respond({ type: 'TURN_TAKEN', requestId, gameState: takeAITurn(gameState) });
+    } catch (error) {
+        respond({ type: 'FAILED', requestId, error: String(error) });
+    }
+};
+
+ctx.onmessage = (event: MessageEvent<AIWorkerRequest>) => {
+    const request = event.data;
+    if (request.type === 'CANCEL') {
+        queued.delete(request.requestId);
+        return;
+    }
+    queued.set(request.requestId, request.gameState);
+    // A strategy can't be interrupted once it starts, so yield first: a cancel already on its way is handled before the work begins.
+    setTimeout(() => runTurn(request.requestId), 0);
+};
@@ -0,0 +1,80 @@
+import { CoordinateSystem } from '../types';
+
+type Dimensions = { rows: number; cols: number };
+
+export const COORDINATE_SYSTEM_LABELS: Record<CoordinateSystem, string> = {
+    SPREADSHEET: 'Spreadsheet (B7)',
+    NUMERIC: 'Numeric (2,7)',
+    CHESS: 'Chess (b6)',
+};
+
+/**
+ * Spreadsheet column letters: A-Z, then AA, AB and so on, so boards of any width get a unique label.
+ */
+export const columnToLetters = (col: number): string => {
+    let label = '';
+    for (let n = col + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+        label = String.fromCharCode(65 + ((n - 1) % 26)) + label;
+    }
+    return label;
+};
+
+/**
+ * The inverse of `columnToLetters`, case-insensitive.
+ * @returns The zero-based column, or null if the text isn't made of letters.
+ */
+export const lettersToColumn = (letters: string): number | null => {
+    if (!/^[a-z]+$/i.test(letters)) return null;
+    return [...letters.toUpperCase()].reduce((col, letter) => col * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+};
+
+/**
+ * The header label of a column.
+ */
+export const formatColumn = (col: number, system: CoordinateSystem): string => {
+    if (system === 'NUMERIC') return `${col + 1}`;
+    const letters = columnToLetters(col);
+    return system === 'CHESS' ? letters.toLowerCase() : letters;
+};
+
+/**
+ * The header label of a row. Chess ranks count up from the bottom of the board.
+ */
+export const formatRow = (row: number, gridDimensions: Dimensions, system: CoordinateSystem): string =>
+    `${system === 'CHESS' ? gridDimensions.rows - row : row + 1}`;
+
+/**
+ * Labels a square the way the player has chosen, e.g. "B7", "2,7" or "b6".
+ */
+export const formatCoords = (coords: { x: number; y: number }, gridDimensions: Dimensions, system: CoordinateSystem): string => {
+    const col = formatColumn(coords.x, system);
+    const row = formatRow(coords.y, gridDimensions, system);
+    return system === 'NUMERIC' ? `${col},${row}` : `${col}${row}`;
+};
+
+/**
+ * Reads a square typed by the player in the chosen coordinate system. Surrounding and inner
+ * whitespace is ignored, as is letter case.
+ * @returns The zero-based square, or null if the text isn't a square on this board.
+ */
+export const parseCoords = (text: string, gridDimensions: Dimensions, system: CoordinateSystem): { x: number; y: number } | null => {
+    const input = text.replace(/\s+/g, '');
+    let col: number | null;
+    let rowNumber: number;
+
+    if (system === 'NUMERIC') {
+        const match = /^(\d+),(\d+)$/.exec(input);
+        if (!match) return null;
+        col = Number(match[1]) - 1;
+        rowNumber = Number(match[2]);
+    } else {
+        const match = /^([a-z]+)(\d+)$/i.exec(input);
+        if (!match) return null;
+        col = lettersToColumn(match[1]);
+        rowNumber = Number(match[2]);
+    }
+
+    const y = system === 'CHESS' ? gridDimensions.rows - rowNumber : rowNumber - 1;
+    if (col === null || col < 0 || col >= gridDimensions.cols || y < 0 || y >= gridDimensions.rows) return null;
+    return { x: col, y };
+};
@@ -0,0 +1,99 @@
+import { GameConfig, GameMode, ShipConfig } from '../types';
+import { MAX_FLEET_COVERAGE, MAX_FLEET_SIZE, MAX_GRID_SIZE, MAX_SHIP_LENGTH, MIN_GRID_SIZE, SHIPS_CONFIG_TACTICAL } from '../constants';
+
+const isWholeNumberBetween = (value: number, min: number, max: number) =>
+    Number.isInteger(value) && value >= min && value <= max;
+
+/**
+ * Packs the fleet into straight lanes, longest ship first. Succeeding proves the fleet fits;
+ * failing doesn't prove it can't, but such fleets are too cramped to deploy at random anyway.
+ */
+const packsIntoLanes = (lengths: number[], laneCount: number, laneLength: number): boolean => {
+    const lanes: number[] = Array(laneCount).fill(laneLength);
+    return [...lengths].sort((a, b) => b - a).every(length => {
+        const lane = lanes.findIndex(space => space >= length);
+        if (lane === -1) return false;
+        lanes[lane] -= length;
+        return true;
+    });
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    value !== null && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Checks that custom rules sent from outside the game, such as by an online client, have the
+ * shape of `GameConfig`. Only rules that pass can be read by `getGameConfig` and `validateGameConfig`.
+ */
+export const isGameConfigShape = (value: unknown): value is GameConfig =>
+    isObject(value)
+    && isObject(value.gridDimensions)
+    && Array.isArray(value.shipsConfig)
+    && value.shipsConfig.every(ship => isObject(ship) && typeof ship.name === 'string' && typeof ship.length === 'number');
+
+/**
+ * Checks custom rules before a game is created with them.
+ * @param config The grid size and fleet from the lobby.
+ * @param mode The game mode; Tactical fleets need a Mothership and at most one ship of each skill,
+ * and Classic ships have no skill at all.
+ * @returns Every problem found, worded for the player. Empty when the rules are playable.
+ */
+export const validateGameConfig = (config: GameConfig, mode: GameMode): string[] => {
+    const errors: string[] = [];
+    const { rows, cols } = config.gridDimensions;
+    const fleet = config.shipsConfig;
+
+    if (!isWholeNumberBetween(rows, MIN_GRID_SIZE, MAX_GRID_SIZE) || !isWholeNumberBetween(cols, MIN_GRID_SIZE, MAX_GRID_SIZE)) {
+        errors.push(`The grid must be between ${MIN_GRID_SIZE} and ${MAX_GRID_SIZE} squares on each side.`);
+    }
+    if (fleet.length === 0) errors.push('The fleet needs at least one ship.');
+    if (fleet.length > MAX_FLEET_SIZE) errors.push(`The fleet can have at most ${MAX_FLEET_SIZE} ships.`);
+
+    const names = fleet.map(ship => ship.name.trim());
+    if (names.some(name => !name)) errors.push('Every ship needs a name.');
+    if (new Set(names).size !== names.length) errors.push('Ship names must be unique.');
+
+    fleet.forEach(ship => {
+        if (!isWholeNumberBetween(ship.length, 1, MAX_SHIP_LENGTH)) {
+            errors.push(`${ship.name || 'A ship'} must be between 1 and ${MAX_SHIP_LENGTH} squares long.`);
+        } else if (ship.length > Math.max(rows, cols)) {
+            errors.push(`${ship.name} is longer than the grid.`);
+        }
+    });
+
+    if (mode === 'TACTICAL') {
+        if (!fleet.some(ship => ship.type === 'Mothership')) errors.push('A Tactical fleet needs a Mothership.');
+        const types = fleet.map(ship => ship.type);
+        if (new Set(types).size !== types.length) errors.push('A Tactical fleet can have only one ship of each kind.');
+        if (fleet.some(ship => !SHIPS_CONFIG_TACTICAL.some(s => s.type === ship.type))) errors.push('Every ship in a Tactical fleet needs a skill.');
+    } else if (fleet.some(ship => ship.type !== undefined)) {
+        errors.push('Classic ships have no skills.');
+    }
+
+    // Only worth checking the fit once every size is sane.
+    if (errors.length === 0) {
+        const lengths = fleet.map(ship => ship.length);
+        const squares = lengths.reduce((sum, length) => sum + length, 0);
+        if (squares > rows * cols * MAX_FLEET_COVERAGE) {
+            errors.push(`The fleet covers ${squares} squares, more than ${Math.round(MAX_FLEET_COVERAGE * 100)}% of a ${cols}x${rows} grid.`);
+        } else if (!packsIntoLanes(lengths, rows, cols) && !packsIntoLanes(lengths, cols, rows)) {
+            errors.push(`The fleet doesn't fit on a ${cols}x${rows} grid.`);
+        }
+    }
+
+    return errors;
+};
+
+/**
+ * Lists the ships the fleet builder can add to a fleet. Classic fleets can take any number of
+ * generic ships; Tactical fleets can only take back skill ships that were removed.
+ */
+export const getAddableShips = (mode: GameMode, fleet: ShipConfig[]): ShipConfig[] => {
+    if (fleet.length >= MAX_FLEET_SIZE) return [];
+    if (mode === 'TACTICAL') {
+        return SHIPS_CONFIG_TACTICAL.filter(ship => !fleet.some(s => s.type === ship.type)).map(ship => ({ ...ship }));
+    }
+    let number = fleet.length + 1;
+    while (fleet.some(ship => ship.name === `Ship ${number}`)) number++;
+    return [{ name: `Ship ${number}`, length: 3 }];
+};
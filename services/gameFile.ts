@@ -0,0 +1,345 @@
+import { CellState, GameFile, GameFileResult, GamePhase, GameState, SavedGame, ShipType } from '../types';
+import { Fields, SAVE_SCHEMA_VERSION, isFields, migrateSavedGame } from './storageService';
+import { MAX_GRID_SIZE } from '../constants';
+
+const GAME_FILE_FORMAT = 'battleship-tactics-game';
+const SHIP_TYPES: ShipType[] = ['Mothership', 'Radarship', 'Repairship', 'Commandship', 'Decoyship', 'Jamship'];
+const LOG_RESULTS = ['HIT', 'MISS', 'SUNK_SHIP', 'SHOT_FIRED', 'SKILL_USED'];
+const AI_REASONS = ['ESCAPE', 'REPAIR_MOTHERSHIP', 'FINISH_MOTHERSHIP', 'HIGH_PROBABILITY', 'FOLLOW_UP', 'HUNT', 'JAM_REPAIR', 'RELOCATE', 'REPAIR', 'RADAR', 'DECOY', 'RANDOM', 'FALLBACK', 'OUT_OF_TIME'];
+const ACTION_TYPES = ['FIRE_SHOT', 'USE_SKILL', 'SELECT_ACTION', 'SELECT_SHIP', 'END_TURN', 'SURRENDER'];
+// Stop collecting after this many problems; a badly corrupted file would otherwise list thousands.
+const MAX_ERRORS = 20;
+
+/**
+ * Collects field-level problems found while checking an imported game against the shape of `GameState`.
+ * Every check returns whether the value passed, so callers can skip nested checks on a broken parent.
+ */
+const createValidator = () => {
+    const errors: string[] = [];
+    const describe = (value: unknown) =>
+        value === undefined ? 'nothing' : Array.isArray(value) ? 'an array' : typeof value === 'object' && value !== null ? 'an object' : JSON.stringify(value);
+    // `found` is either the offending value or, for count mismatches, a ready-made description.
+    const report = (path: string, expected: string, found: string) => {
+        if (errors.length < MAX_ERRORS) errors.push(`${path}: expected ${expected}, found ${found}.`);
+        return false;
+    };
+    const fail = (path: string, expected: string, value: unknown) => report(path, expected, describe(value));
+
+    const isObject = (path: string, value: unknown): value is Fields => isFields(value) || fail(path, 'an object', value);
+    const isArray = (path: string, value: unknown): value is unknown[] => Array.isArray(value) || fail(path, 'an array', value);
+    const isString = (path: string, value: unknown): value is string => typeof value === 'string' || fail(path, 'a string', value);
+    const isBoolean = (path: string, value: unknown): value is boolean => typeof value === 'boolean' || fail(path, 'true or false', value);
+    const isInteger = (path: string, value: unknown, min = -Infinity): value is number =>
+        (typeof value === 'number' && Number.isInteger(value) && value >= min) || fail(path, min > -Infinity ? `a whole number of at least ${min}` : 'a whole number', value);
+    const isOneOf = (path: string, value: unknown, options: readonly string[]): value is string =>
+        (typeof value === 'string' && options.includes(value)) || fail(path, `one of ${options.join(', ')}`, value);
+    const isNullableString = (path: string, value: unknown): value is string | null =>
+        value === null || typeof value === 'string' || fail(path, 'a string or null', value);
+
+    return { errors, report, fail, isObject, isArray, isString, isBoolean, isInteger, isOneOf, isNullableString };
+};
+
+type Validator = ReturnType<typeof createValidator>;
+type Dimensions = { rows: number; cols: number };
+
+const validateCoords = (v: Validator, path: string, coords: unknown, dims: Dimensions) => {
+    if (!v.isArray(path, coords)) return;
+    coords.forEach((c: unknown, i: number) => {
+        const p = `${path}[${i}]`;
+        if (!v.isObject(p, c)) return;
+        if (v.isInteger(`${p}.x`, c.x, 0) && c.x >= dims.cols) v.fail(`${p}.x`, `a column below ${dims.cols}`, c.x);
+        if (v.isInteger(`${p}.y`, c.y, 0) && c.y >= dims.rows) v.fail(`${p}.y`, `a row below ${dims.rows}`, c.y);
+    });
+};
+
+const validateGrid = (v: Validator, path: string, grid: unknown, dims: Dimensions) => {
+    if (!v.isArray(path, grid)) return;
+    if (grid.length !== dims.rows) v.report(path, `${dims.rows} rows`, `${grid.length}`);
+    const cellStates = Object.values(CellState) as string[];
+    grid.forEach((row: unknown, y: number) => {
+        if (!v.isArray(`${path}[${y}]`, row)) return;
+        if (row.length !== dims.cols) v.report(`${path}[${y}]`, `${dims.cols} cells`, `${row.length}`);
+        row.forEach((cell: unknown, x: number) => v.isOneOf(`${path}[${y}][${x}]`, cell, cellStates));
+    });
+};
+
+// Classic ships have no skills, and so no type.
+const validateShipType = (v: Validator, path: string, ship: Fields) =>
+    ship.type === undefined || v.isOneOf(`${path}.type`, ship.type, SHIP_TYPES);
+
+const validateShip = (v: Validator, path: string, ship: unknown, dims: Dimensions) => {
+    if (!v.isObject(path, ship)) return;
+    v.isString(`${path}.name`, ship.name);
+    validateShipType(v, path, ship);
+    const hasLength = v.isInteger(`${path}.length`, ship.length, 1);
+    validateCoords(v, `${path}.positions`, ship.positions, dims);
+    // A ship lifted for Escape or Relocate has no positions until it is placed again.
+    if (hasLength && Array.isArray(ship.positions) && ship.positions.length !== 0 && ship.positions.length !== ship.length) {
+        v.report(`${path}.positions`, `${ship.length} positions`, `${ship.positions.length}`);
+    }
+    ['isSunk', 'isDamaged', 'hasBeenRepaired', 'hasBeenRelocated'].forEach(key => v.isBoolean(`${path}.${key}`, ship[key]));
+};
+
+const validateShipsConfig = (v: Validator, path: string, shipsConfig: unknown) => {
+    if (!v.isArray(path, shipsConfig)) return;
+    shipsConfig.forEach((config: unknown, i: number) => {
+        const p = `${path}[${i}]`;
+        if (!v.isObject(p, config)) return;
+        v.isString(`${p}.name`, config.name);
+        validateShipType(v, p, config);
+        v.isInteger(`${p}.length`, config.length, 1);
+    });
+};
+
+const validateLog = (v: Validator, path: string, log: unknown) => {
+    if (!v.isArray(path, log)) return;
+    log.forEach((entry: unknown, i: number) => {
+        const p = `${path}[${i}]`;
+        if (!v.isObject(p, entry)) return;
+        v.isInteger(`${p}.turn`, entry.turn);
+        v.isString(`${p}.playerId`, entry.playerId);
+        v.isString(`${p}.playerName`, entry.playerName);
+        v.isOneOf(`${p}.result`, entry.result, LOG_RESULTS);
+    });
+};
+
+const validateSkillCounters = (v: Validator, path: string, counters: unknown) => {
+    if (!v.isObject(path, counters)) return;
+    Object.entries(counters).forEach(([key, value]) => {
+        if (v.isOneOf(`${path} key`, key, SHIP_TYPES)) v.isInteger(`${path}.${key}`, value, 0);
+    });
+};
+
+const validatePlayer = (v: Validator, path: string, player: unknown, dims: Dimensions, playerIds: string[]) => {
+    if (!v.isObject(path, player)) return;
+    v.isString(`${path}.id`, player.id);
+    v.isString(`${path}.name`, player.name);
+    v.isBoolean(`${path}.isAI`, player.isAI);
+    v.isBoolean(`${path}.isReady`, player.isReady);
+    v.isBoolean(`${path}.isEliminated`, player.isEliminated);
+    v.isInteger(`${path}.score`, player.score);
+    if (player.teamId !== undefined) v.isString(`${path}.teamId`, player.teamId);
+    if (player.aiDifficulty !== undefined) v.isOneOf(`${path}.aiDifficulty`, player.aiDifficulty, ['EASY', 'NORMAL', 'HARD', 'EXPERT']);
+    if (player.aiStrategyId !== undefined) v.isString(`${path}.aiStrategyId`, player.aiStrategyId);
+    validateGrid(v, `${path}.grid`, player.grid, dims);
+    if (v.isArray(`${path}.ships`, player.ships)) {
+        player.ships.forEach((ship: unknown, i: number) => validateShip(v, `${path}.ships[${i}]`, ship, dims));
+    }
+    if (v.isObject(`${path}.shots`, player.shots)) {
+        Object.entries(player.shots).forEach(([targetId, grid]) => {
+            if (!playerIds.includes(targetId) || targetId === player.id) v.fail(`${path}.shots`, 'keys naming opponents in this game', targetId);
+            validateGrid(v, `${path}.shots["${targetId}"]`, grid, dims);
+        });
+    }
+    validateSkillCounters(v, `${path}.skillCooldowns`, player.skillCooldowns);
+    validateSkillCounters(v, `${path}.skillUses`, player.skillUses);
+    validateCoords(v, `${path}.decoyPositions`, player.decoyPositions, dims);
+    if (player.radarScans !== undefined && v.isArray(`${path}.radarScans`, player.radarScans)) {
+        player.radarScans.forEach((scan: unknown, i: number) => {
+            const p = `${path}.radarScans[${i}]`;
+            if (!v.isObject(p, scan)) return;
+            v.isString(`${p}.targetId`, scan.targetId);
+            v.isInteger(`${p}.turn`, scan.turn, 1);
+            validateCoords(v, `${p}.results`, scan.results, dims);
+            if (Array.isArray(scan.results)) {
+                scan.results.forEach((result: unknown, j: number) => {
+                    if (isFields(result)) v.isOneOf(`${p}.results[${j}].state`, result.state, [CellState.RADAR_CONTACT, CellState.MISS]);
+                });
+            }
+        });
+    }
+};
+
+const validatePlayers = (v: Validator, path: string, players: unknown, dims: Dimensions) => {
+    if (!v.isArray(path, players)) return [];
+    if (players.length < 2) v.report(path, 'at least 2 players', `${players.length}`);
+    const playerIds = players.map(p => isFields(p) ? p.id : undefined).filter((id): id is string => typeof id === 'string');
+    players.forEach((player: unknown, i: number) => validatePlayer(v, `${path}[${i}]`, player, dims, playerIds));
+    return playerIds as string[];
+};
+
+const validateRecord = (v: Validator, path: string, record: unknown, dims: Dimensions) => {
+    if (!v.isObject(path, record)) return;
+    v.isString(`${path}.seed`, record.seed);
+    v.isInteger(`${path}.initialRngState`, record.initialRngState, 0);
+    const playerIds = validatePlayers(v, `${path}.initialPlayers`, record.initialPlayers, dims);
+    if (v.isString(`${path}.startingPlayerId`, record.startingPlayerId) && !playerIds.includes(record.startingPlayerId)) {
+        v.fail(`${path}.startingPlayerId`, 'the id of a player in this game', record.startingPlayerId);
+    }
+    if (record.coachedPlayerIds !== undefined && v.isArray(`${path}.coachedPlayerIds`, record.coachedPlayerIds)) {
+        record.coachedPlayerIds.forEach((id: unknown, i: number) => {
+            if (v.isString(`${path}.coachedPlayerIds[${i}]`, id) && !playerIds.includes(id)) {
+                v.fail(`${path}.coachedPlayerIds[${i}]`, 'the id of a player in this game', id);
+            }
+        });
+    }
+    if (!v.isArray(`${path}.actions`, record.actions)) return;
+    record.actions.forEach((action: unknown, i: number) => {
+        const p = `${path}.actions[${i}]`;
+        if (!v.isObject(p, action)) return;
+        v.isOneOf(`${p}.type`, action.type, ACTION_TYPES);
+        if (v.isString(`${p}.playerId`, action.playerId) && !playerIds.includes(action.playerId)) {
+            v.fail(`${p}.playerId`, 'the id of a player in this game', action.playerId);
+        }
+    });
+};
+
+const validateGameState = (v: Validator, path: string, game: unknown) => {
+    if (!v.isObject(path, game)) return;
+    v.isString(`${path}.gameId`, game.gameId);
+    v.isOneOf(`${path}.phase`, game.phase, Object.values(GamePhase));
+    v.isOneOf(`${path}.gameMode`, game.gameMode, ['CLASSIC', 'TACTICAL']);
+    v.isInteger(`${path}.turn`, game.turn, 1);
+    v.isInteger(`${path}.maxPlayers`, game.maxPlayers, 2);
+    v.isBoolean(`${path}.hasActedThisTurn`, game.hasActedThisTurn);
+    if (game.turnSlot !== undefined) v.isInteger(`${path}.turnSlot`, game.turnSlot, 0);
+    v.isString(`${path}.seed`, game.seed);
+    v.isInteger(`${path}.rngState`, game.rngState, 0);
+    v.isInteger(`${path}.aiRngState`, game.aiRngState, 0);
+
+    // Everything below is sized by the grid, so stop here if it is unusable.
+    if (!v.isObject(`${path}.gridDimensions`, game.gridDimensions)) return;
+    const { rows, cols } = game.gridDimensions;
+    const rowsOk = v.isInteger(`${path}.gridDimensions.rows`, rows, 1);
+    const colsOk = v.isInteger(`${path}.gridDimensions.cols`, cols, 1);
+    if (!rowsOk || !colsOk) return;
+    const dims: Dimensions = { rows, cols };
+
+    validateShipsConfig(v, `${path}.shipsConfig`, game.shipsConfig);
+
+    const playerIds = validatePlayers(v, `${path}.players`, game.players, dims);
+    if (v.isNullableString(`${path}.currentPlayerId`, game.currentPlayerId) && game.currentPlayerId !== null && !playerIds.includes(game.currentPlayerId)) {
+        v.fail(`${path}.currentPlayerId`, 'the id of a player in this game', game.currentPlayerId);
+    }
+    if (v.isNullableString(`${path}.winner`, game.winner) && game.winner !== null && !playerIds.includes(game.winner)) {
+        v.fail(`${path}.winner`, 'the id of a player in this game', game.winner);
+    }
+
+    validateLog(v, `${path}.log`, game.log);
+
+    if (game.aiDecisions !== undefined && v.isArray(`${path}.aiDecisions`, game.aiDecisions)) {
+        game.aiDecisions.forEach((decision: unknown, i: number) => {
+            const p = `${path}.aiDecisions[${i}]`;
+            if (!v.isObject(p, decision)) return;
+            v.isInteger(`${p}.turn`, decision.turn);
+            v.isString(`${p}.playerId`, decision.playerId);
+            v.isString(`${p}.playerName`, decision.playerName);
+            if (v.isObject(`${p}.rationale`, decision.rationale)) v.isOneOf(`${p}.rationale.reason`, decision.rationale.reason, AI_REASONS);
+        });
+    }
+
+    if (game.record !== undefined) validateRecord(v, `${path}.record`, game.record, dims);
+};
+
+/**
+ * Reads a game file, migrating it to the current save schema and checking every field.
+ * @param text The file's contents.
+ * @returns The game as a save, or a list of the problems found, each naming the offending field.
+ */
+export const parseGameFile = (text: string): GameFileResult => {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        return { success: false, errors: ['The file is not valid JSON.'] };
+    }
+
+    const v = createValidator();
+    if (!v.isObject('file', data)) return { success: false, errors: v.errors };
+    if (data.format !== GAME_FILE_FORMAT) {
+        return { success: false, errors: [`format: expected "${GAME_FILE_FORMAT}". This is not a game file.`] };
+    }
+    if (!v.isInteger('version', data.version, 1)) return { success: false, errors: v.errors };
+    if (data.version > SAVE_SCHEMA_VERSION) {
+        return { success: false, errors: [`version: the file was written by a newer version of the game (schema ${data.version}).`] };
+    }
+
+    // Migrations only touch the game, and skip anything else that is malformed for the checks below to report.
+    if (!v.isObject('game', data.game)) return { success: false, errors: v.errors };
+    let save: SavedGame | null;
+    try {
+        save = migrateSavedGame(data);
+    } catch (error) {
+        return { success: false, errors: [`version: the file could not be upgraded from schema ${data.version} (${error instanceof Error ? error.message : error}).`] };
+    }
+    if (!save) return { success: false, errors: [`version: schema ${data.version} can no longer be read.`] };
+
+    validateGameState(v, 'game', save.game);
+    v.isString('localPlayerId', save.localPlayerId);
+    if (v.errors.length > 0) return { success: false, errors: v.errors };
+
+    const { format, ...rest } = save as GameFile;
+    return { success: true, save: { ...rest, savedAt: Date.now() } as SavedGame };
+};
+
+/**
+ * Checks a board view sent from outside the game, such as a request to the AI move endpoint, against the shape of `AIView`.
+ * Boards larger than the lobby allows are refused too, since the AI's work grows with the board.
+ * @returns The problems found, each naming the offending field; empty if the view is usable.
+ */
+export const validateAIView = (view: unknown): string[] => {
+    const v = createValidator();
+    const data = view;
+    if (!v.isObject('view', data)) return v.errors;
+    v.isOneOf('view.gameMode', data.gameMode, ['CLASSIC', 'TACTICAL']);
+    v.isInteger('view.turn', data.turn, 1);
+
+    if (!v.isObject('view.gridDimensions', data.gridDimensions)) return v.errors;
+    const { rows, cols } = data.gridDimensions;
+    const rowsOk = v.isInteger('view.gridDimensions.rows', rows, 1) && (rows <= MAX_GRID_SIZE || v.fail('view.gridDimensions.rows', `at most ${MAX_GRID_SIZE}`, rows));
+    const colsOk = v.isInteger('view.gridDimensions.cols', cols, 1) && (cols <= MAX_GRID_SIZE || v.fail('view.gridDimensions.cols', `at most ${MAX_GRID_SIZE}`, cols));
+    if (!rowsOk || !colsOk) return v.errors;
+    const dims: Dimensions = { rows, cols };
+
+    validateShipsConfig(v, 'view.shipsConfig', data.shipsConfig);
+    validateLog(v, 'view.log', data.log);
+    if (v.isObject('view.ownHitLog', data.ownHitLog)) {
+        Object.entries(data.ownHitLog).forEach(([coord, turn]) => v.isInteger(`view.ownHitLog["${coord}"]`, turn, 1));
+    }
+
+    const opponentIds: string[] = [];
+    if (v.isArray('view.opponents', data.opponents)) {
+        if (data.opponents.length === 0) v.report('view.opponents', 'at least 1 opponent', '0');
+        data.opponents.forEach((opponent: unknown, i: number) => {
+            const p = `view.opponents[${i}]`;
+            if (!v.isObject(p, opponent)) return;
+            if (v.isString(`${p}.id`, opponent.id)) opponentIds.push(opponent.id);
+            v.isString(`${p}.name`, opponent.name);
+            if (opponent.teamId !== undefined) v.isString(`${p}.teamId`, opponent.teamId);
+            v.isBoolean(`${p}.isEliminated`, opponent.isEliminated);
+            validateGrid(v, `${p}.shots`, opponent.shots, dims);
+            if (v.isArray(`${p}.sunkShipNames`, opponent.sunkShipNames)) {
+                opponent.sunkShipNames.forEach((name: unknown, j: number) => v.isString(`${p}.sunkShipNames[${j}]`, name));
+            }
+            validateShipsConfig(v, `${p}.afloatShips`, opponent.afloatShips);
+        });
+    }
+    // The AI's own shot grids may also cover allies, who aren't among its opponents.
+    const shotTargetIds = isFields(data.self) && isFields(data.self.shots) ? Object.keys(data.self.shots) : [];
+    validatePlayer(v, 'view.self', data.self, dims, [...opponentIds, ...shotTargetIds]);
+    return v.errors;
+};
+
+/**
+ * Downloads a game, with its full action history, as a `.json` file.
+ * @param game The game to export.
+ * @param localPlayerId The player this browser is playing as, restored on import.
+ */
+export const exportGameFile = (game: GameState, localPlayerId: string): void => {
+    const file: GameFile = {
+        format: GAME_FILE_FORMAT,
+        version: SAVE_SCHEMA_VERSION,
+        savedAt: Date.now(),
+        localPlayerId,
+        game,
+    };
+    const blob = new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `battleship-${game.gameMode.toLowerCase()}-${game.seed}-turn-${game.turn}.json`;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+};
@@ -1,12 +1,12 @@
-import { CellState, Grid, Player, Ship, GameState, GameLogEntry, ShipType, GamePhase } from '../types';
-
-const getColumnLetter = (col: number) => String.fromCharCode(65 + col);
+import { CellState, Grid, Player, Ship, ShipConfig, GameState, GameMode, GameLogEntry, ShipType, GamePhase, GameAction, ActionResult, ActionRejectionReason, SkillRejectionReason, ShipDeployment, ActiveAction } from '../types';
+import { isSkillShipType, resolveSkill, restoreLiftedShip, SKILL_REJECTION_MESSAGES } from './skills';
+import { Rng, hashSeed } from './random';
 
 export const createEmptyGrid = (rows: number, cols: number): Grid => {
   return Array(rows).fill(null).map(() => Array(cols).fill(CellState.EMPTY));
 };
 
-export const createInitialPlayer = (id: string, name: string, isAI: boolean, shipsConfig: Omit<Ship, 'positions' | 'isSunk' | 'isDamaged' | 'hasBeenRepaired' | 'hasBeenRelocated'>[], gridDimensions: { rows: number; cols: number }, gameMode: 'TACTICAL' | 'CLASSIC'): Player => {
+export const createInitialPlayer = (id: string, name: string, isAI: boolean, shipsConfig: ShipConfig[], gridDimensions: { rows: number; cols: number }, gameMode: 'TACTICAL' | 'CLASSIC'): Player => {
   const initialShips = shipsConfig.map(shipConfig => ({
     ...shipConfig,
     positions: [],
@@ -35,14 +35,19 @@ export const createInitialPlayer = (id: string, name: string, isAI: boolean, shi
   };
 
   if (gameMode === 'TACTICAL') {
-      player.skillCooldowns = { 'Radarship': 0, 'Commandship': 0, 'Repairship': 0, 'Jamship': 0 };
-      player.skillUses = { 'Decoyship': 2, 'Mothership': 1 };
+      // Custom fleets may leave skill ships out; only track the skills this fleet has.
+      const hasShip = (type: ShipType) => shipsConfig.some(s => s.type === type);
+      const cooldownSkills: ShipType[] = ['Radarship', 'Commandship', 'Repairship', 'Jamship'];
+      cooldownSkills.filter(hasShip).forEach(type => { player.skillCooldowns[type] = 0; });
+      if (hasShip('Decoyship')) player.skillUses.Decoyship = 2;
+      if (hasShip('Mothership')) player.skillUses.Mothership = 1;
   }
 
   return player;
 };
 
 export const canPlaceShip = (grid: Grid, ship: { length: number }, x: number, y: number, isHorizontal: boolean, gridDimensions: { rows: number, cols: number }): boolean => {
+  if (!Number.isInteger(x) || !Number.isInteger(y)) return false;
   const shipPositions = [];
   for (let i = 0; i < ship.length; i++) {
     const currentX = x + (isHorizontal ? i : 0);
@@ -73,7 +78,7 @@ export const placeShip = (grid: Grid, ship: Ship, x: number, y: number, isHorizo
   return { newGrid, newShip: { ...ship, positions: newPositions } };
 };
 
-const placeAllShipsRandomly = (shipsConfig: Omit<Ship, 'positions' | 'isSunk' | 'isDamaged' | 'hasBeenRepaired' | 'hasBeenRelocated'>[], gridDimensions: { rows: number, cols: number }): { grid: Grid, ships: Ship[] } => {
+export const placeAllShipsRandomly = (shipsConfig: ShipConfig[], gridDimensions: { rows: number, cols: number }, rng: Rng): { grid: Grid, ships: Ship[] } => {
     let newGrid = createEmptyGrid(gridDimensions.rows, gridDimensions.cols);
     const newShips: Ship[] = [];
 
@@ -84,12 +89,12 @@ const placeAllShipsRandomly = (shipsConfig: Omit<Ship, 'positions' | 'isSunk' |
             attempts++;
             if (attempts > 500) { 
                 console.error(`Failed to place ship: ${shipConfig.name}. Resetting.`);
-                return placeAllShipsRandomly(shipsConfig, gridDimensions); 
+                return placeAllShipsRandomly(shipsConfig, gridDimensions, rng); 
             }
 
-            const isHorizontal = Math.random() < 0.5;
-            const x = Math.floor(Math.random() * gridDimensions.cols);
-            const y = Math.floor(Math.random() * gridDimensions.rows);
+            const isHorizontal = rng.next() < 0.5;
+            const x = rng.nextInt(gridDimensions.cols);
+            const y = rng.nextInt(gridDimensions.rows);
 
             if (canPlaceShip(newGrid, shipConfig, x, y, isHorizontal, gridDimensions)) {
                 const shipToPlace: Ship = { ...shipConfig, positions: [], isSunk: false, isDamaged: false, hasBeenRepaired: false, hasBeenRelocated: false };
@@ -105,12 +110,34 @@ const placeAllShipsRandomly = (shipsConfig: Omit<Ship, 'positions' | 'isSunk' |
     return { grid: newGrid, ships: newShips };
 };
 
-export const placeShipsForAI = (player: Player, shipsConfig: Omit<Ship, 'positions' | 'isSunk' | 'isDamaged' | 'hasBeenRepaired' | 'hasBeenRelocated'>[], gridDimensions: { rows: number, cols: number }): Player => {
-    const { grid, ships } = placeAllShipsRandomly(shipsConfig, gridDimensions);
+export const placeShipsForAI = (player: Player, shipsConfig: ShipConfig[], gridDimensions: { rows: number, cols: number }, rng: Rng): Player => {
+    const { grid, ships } = placeAllShipsRandomly(shipsConfig, gridDimensions, rng);
     return { ...player, grid, ships, isReady: true };
 };
 
-export const findRandomValidPlacement = (player: Player, ship: Ship, gridDimensions: { rows: number, cols: number }): { x: number, y: number, isHorizontal: boolean } | null => {
+/**
+ * Deploys a whole fleet from a list of placements, e.g. one chosen by an AI strategy.
+ * @param player The player whose configured ships are deployed.
+ * @param deployments One placement per ship, by ship name.
+ * @returns The player with the fleet on its grid, or null unless every ship is placed exactly once without overlaps.
+ */
+export const deployFleet = (player: Player, deployments: ShipDeployment[], gridDimensions: { rows: number, cols: number }): Player | null => {
+    if (deployments.length !== player.ships.length) return null;
+    let grid = createEmptyGrid(gridDimensions.rows, gridDimensions.cols);
+    const ships: Ship[] = [];
+    for (const ship of player.ships) {
+        const deployment = deployments.find(d => d.shipName === ship.name);
+        if (!deployment) return null;
+        const { x, y, isHorizontal } = deployment.placement;
+        if (!canPlaceShip(grid, ship, x, y, isHorizontal, gridDimensions)) return null;
+        const result = placeShip(grid, { ...ship, positions: [] }, x, y, isHorizontal);
+        grid = result.newGrid;
+        ships.push(result.newShip);
+    }
+    return { ...player, grid, ships, isReady: true };
+};
+
+export const findRandomValidPlacement = (player: Player, ship: Ship, gridDimensions: { rows: number, cols: number }, rng: Rng): { x: number, y: number, isHorizontal: boolean } | null => {
     if (!player.grid || !player.grid.length || !player.grid[0].length) {
         console.error("findRandomValidPlacement called with invalid grid.");
         return null; // Add guard clause for safety
@@ -124,9 +151,9 @@ export const findRandomValidPlacement = (player: Player, ship: Ship, gridDimensi
 
     let attempts = 0;
     while (attempts < 100) {
-        const isHorizontal = Math.random() < 0.5;
-        const x = Math.floor(Math.random() * gridDimensions.cols);
-        const y = Math.floor(Math.random() * gridDimensions.rows);
+        const isHorizontal = rng.next() < 0.5;
+        const x = rng.nextInt(gridDimensions.cols);
+        const y = rng.nextInt(gridDimensions.rows);
 
         if (canPlaceShip(gridWithoutShip, ship, x, y, isHorizontal, gridDimensions)) {
             return { x, y, isHorizontal };
@@ -136,6 +163,63 @@ export const findRandomValidPlacement = (player: Player, ship: Ship, gridDimensi
     return null; // Failed to find a placement
 };
 
+/**
+ * Whether two players fight on the same side. Players without a team are allied with nobody.
+ */
+export const areAllies = (a: Player, b: Player): boolean =>
+    a.id !== b.id && !!a.teamId && a.teamId === b.teamId;
+
+/**
+ * Ends the game once every fleet still in play is on one side.
+ * In a team game the winner is the first surviving member of the winning team.
+ * @returns True if the game is now over.
+ */
+const checkForGameOver = (gameState: GameState): boolean => {
+    const activePlayers = gameState.players.filter(p => !p.isEliminated);
+    const sides = new Set(activePlayers.map(p => p.teamId ?? p.id));
+    if (sides.size > 1) return false;
+    gameState.phase = GamePhase.GAME_OVER;
+    gameState.winner = activePlayers[0]?.id ?? null;
+    return true;
+};
+
+/**
+ * Copies what the attacker now knows about a target fleet onto their allies' shot grids.
+ * Only fills gaps or upgrades a hit to sunk, so an ally's own markers are never lost.
+ */
+const shareIntel = (gameState: GameState, attacker: Player, targetId: string) => {
+    const source = attacker.shots[targetId];
+    if (!source) return;
+    gameState.players.filter(p => areAllies(p, attacker)).forEach(ally => {
+        if (!ally.shots[targetId]) ally.shots[targetId] = createEmptyGrid(gameState.gridDimensions.rows, gameState.gridDimensions.cols);
+        const grid = ally.shots[targetId];
+        source.forEach((row, y) => row.forEach((cell, x) => {
+            const known = grid[y][x];
+            if (cell === CellState.EMPTY) return;
+            if (known === CellState.EMPTY || known === CellState.RADAR_CONTACT || (known === CellState.HIT && cell === CellState.SUNK)) {
+                grid[y][x] = cell;
+            }
+        }));
+    });
+};
+
+/**
+ * Finds who plays next in a team game. Turns rotate through the seats, so the two sides alternate;
+ * the seat of an eliminated fleet is played by its surviving ally.
+ */
+const findNextTeamTurn = (gameState: GameState): { slot: number; playerIndex: number } | null => {
+    const { players } = gameState;
+    const currentIndex = players.findIndex(p => p.id === gameState.currentPlayerId);
+    const slot = gameState.turnSlot ?? currentIndex;
+    for (let i = 1; i <= players.length; i++) {
+        const nextSlot = (slot + i) % players.length;
+        const seat = players[nextSlot];
+        const actor = !seat.isEliminated ? seat : players.find(p => areAllies(p, seat) && !p.isEliminated);
+        if (actor) return { slot: nextSlot, playerIndex: players.indexOf(actor) };
+    }
+    return null;
+};
+
 export const advanceTurn = (gameState: GameState): GameState => {
     const currentTurnPlayer = gameState.players.find(p => p.id === gameState.currentPlayerId);
     
@@ -165,11 +249,17 @@ export const advanceTurn = (gameState: GameState): GameState => {
     let currentPlayerIndex = gameState.players.findIndex(p => p.id === gameState.currentPlayerId);
     let nextPlayerIndex = (currentPlayerIndex + 1) % gameState.players.length;
     
-    // Skip eliminated players
-    while(gameState.players[nextPlayerIndex].isEliminated) {
-        nextPlayerIndex = (nextPlayerIndex + 1) % gameState.players.length;
-        // This prevents an infinite loop if all other players are eliminated.
-        if (nextPlayerIndex === currentPlayerIndex) break;
+    const teamTurn = gameState.players.some(p => p.teamId) ? findNextTeamTurn(gameState) : null;
+    if (teamTurn) {
+        nextPlayerIndex = teamTurn.playerIndex;
+        gameState.turnSlot = teamTurn.slot;
+    } else {
+        // Skip eliminated players
+        while(gameState.players[nextPlayerIndex].isEliminated) {
+            nextPlayerIndex = (nextPlayerIndex + 1) % gameState.players.length;
+            // This prevents an infinite loop if all other players are eliminated.
+            if (nextPlayerIndex === currentPlayerIndex) break;
+        }
     }
     
     const nextPlayer = gameState.players[nextPlayerIndex];
@@ -276,10 +366,19 @@ export const processShot = (gameState: GameState, targetPlayerId: string | null,
                       targetId: target.id,
                       targetName: target.name,
                   });
+                  // Losing the Mothership knocks a fleet out; the game ends when only one side has Motherships left.
                   if (hitShip.type === 'Mothership') {
                       target.isEliminated = true;
-                      newGameState.phase = 'GAME_OVER';
-                      newGameState.winner = attacker.id;
+                      if (!checkForGameOver(newGameState)) {
+                          const activePlayers = newGameState.players.filter(p => !p.isEliminated);
+                          newGameState.log.unshift({
+                              ...baseLogEntry,
+                              result: 'SKILL_USED',
+                              targetId: target.id,
+                              targetName: target.name,
+                              message: `${target.name}'s fleet has been eliminated. ${activePlayers.length} commanders remain.`,
+                          });
+                      }
                   }
               } else {
                   newGameState.log.unshift({
@@ -356,14 +455,211 @@ export const processShot = (gameState: GameState, targetPlayerId: string | null,
       target.isEliminated = true;
     }
     
-    const activePlayers = newGameState.players.filter(p => !p.isEliminated);
-    if (activePlayers.length <= 1) {
-      newGameState.phase = 'GAME_OVER';
-      newGameState.winner = activePlayers.length === 1 ? activePlayers[0].id : null;
+    if (checkForGameOver(newGameState)) {
       newGameState.hasActedThisTurn = true; // Game is over, so turn should end.
     }
     newGameState.log.unshift(logEntry);
   }
 
+  if (targetPlayerId) shareIntel(newGameState, attacker, targetPlayerId);
+
   return newGameState;
 };
+
+
+const ACTION_REJECTION_MESSAGES: Record<Exclude<ActionRejectionReason, SkillRejectionReason>, string> = {
+    NOT_YOUR_TURN: "It's not your turn.",
+    ALREADY_ACTED: "You have already acted this turn.",
+    TURN_NOT_FINISHED: "You must act before ending your turn.",
+    INVALID_SHOT: "You can't fire at that position.",
+    INVALID_SELECTION: "That ship can't be selected.",
+    INVALID_ACTION: "That action isn't part of the game.",
+};
+
+export const getRejectionMessage = (reason: ActionRejectionReason): string =>
+    ACTION_REJECTION_MESSAGES[reason as keyof typeof ACTION_REJECTION_MESSAGES] ?? SKILL_REJECTION_MESSAGES[reason as SkillRejectionReason];
+
+const rejectAction = (reason: ActionRejectionReason): ActionResult => ({ success: false, reason });
+
+const cloneState = (gameState: GameState): GameState => JSON.parse(JSON.stringify(gameState));
+
+const isShotAllowed = (gameState: GameState, attackerId: string, targetId: string, x: number, y: number): boolean => {
+    const { rows, cols } = gameState.gridDimensions;
+    if (!Number.isInteger(x) || !Number.isInteger(y) || x < 0 || x >= cols || y < 0 || y >= rows) return false;
+    const target = gameState.players.find(p => p.id === targetId);
+    const attacker = gameState.players.find(p => p.id === attackerId)!;
+    if (!target || target.id === attackerId || target.isEliminated || areAllies(attacker, target)) return false;
+    const cell = attacker.shots[targetId]?.[y]?.[x] ?? CellState.EMPTY;
+    return cell === CellState.EMPTY || (gameState.gameMode === 'TACTICAL' && cell === CellState.RADAR_CONTACT);
+};
+
+/**
+ * Lifts a ship off its owner's grid so the player can choose where Escape or Relocate should put it.
+ * The engine restores the ship before resolving the skill, so an abandoned placement never loses it.
+ */
+const liftShipForPlacement = (gameState: GameState, playerId: string, shipType: 'Mothership' | 'Commandship', shipName: string): ActionResult => {
+    const newState = restoreLiftedShip(cloneState(gameState));
+    const player = newState.players.find(p => p.id === playerId)!;
+    const ship = player.ships.find(s => s.name === shipName);
+    if (!ship || ship.isSunk) return rejectAction('INVALID_SELECTION');
+    if (shipType === 'Mothership' && (ship.type !== 'Mothership' || !player.escapeSkillUnlocked || (player.skillUses?.Mothership ?? 0) <= 0)) {
+        return rejectAction('INVALID_SELECTION');
+    }
+    if (shipType === 'Commandship' && (ship.isDamaged || ship.hasBeenRelocated)) return rejectAction('INVALID_SELECTION');
+
+    const isHorizontal = ship.positions.length > 1 ? ship.positions[0].y === ship.positions[1].y : true;
+    const originalPositions = ship.positions.map(pos => ({ x: pos.x, y: pos.y, state: player.grid[pos.y][pos.x] }));
+    ship.positions.forEach(pos => { player.grid[pos.y][pos.x] = CellState.EMPTY; });
+    newState.activeAction = { playerId, type: 'SKILL', shipType, stage: 'PLACE_SHIP', shipToMove: { ...ship, positions: [] }, originalPositions, isHorizontal };
+    ship.positions = [];
+    return { success: true, state: newState };
+};
+
+const surrender = (gameState: GameState, playerId: string): ActionResult => {
+    const newState = cloneState(gameState);
+    const surrenderingPlayer = newState.players.find(p => p.id === playerId);
+    if (!surrenderingPlayer || surrenderingPlayer.isEliminated) return rejectAction('NOT_YOUR_TURN');
+
+    surrenderingPlayer.isEliminated = true;
+    newState.log.unshift({
+        turn: newState.turn,
+        playerId,
+        playerName: surrenderingPlayer.name,
+        result: 'SKILL_USED',
+        message: `${surrenderingPlayer.name} has surrendered.`,
+    });
+
+    if (!checkForGameOver(newState) && newState.currentPlayerId === playerId) {
+        return { success: true, state: advanceTurn(newState) };
+    }
+    return { success: true, state: newState };
+};
+
+/**
+ * Opens a new game in the SETUP phase. Each player gets an empty shot grid for every other player.
+ * @param players The players in seat order, created with `createInitialPlayer`.
+ * @param seed The seed both random streams are derived from.
+ */
+export const createGame = (players: Player[], gridDimensions: { rows: number, cols: number }, shipsConfig: ShipConfig[], gameMode: GameMode, seed: string): GameState => {
+    players.forEach(player => {
+        players.forEach(other => {
+            if (other.id !== player.id) player.shots[other.id] = createEmptyGrid(gridDimensions.rows, gridDimensions.cols);
+        });
+    });
+    return {
+        gameId: crypto.randomUUID(),
+        phase: GamePhase.SETUP,
+        players,
+        currentPlayerId: null,
+        winner: null,
+        maxPlayers: players.length,
+        turn: 1,
+        gridDimensions,
+        shipsConfig,
+        gameMode,
+        log: [],
+        hasActedThisTurn: false,
+        seed,
+        rngState: hashSeed(seed),
+        aiRngState: hashSeed(`${seed}:ai`),
+    };
+};
+
+/**
+ * Moves a fully deployed game into play and opens its record with the fleets as placed.
+ * @param gameState A game whose players are all ready.
+ * @param startingPlayerId The player who takes the first turn.
+ * @returns The game in the PLAYING phase.
+ */
+export const startGame = (gameState: GameState, startingPlayerId: string): GameState => {
+    const players = gameState.players.map(p => ({ ...p, isReady: true }));
+    return {
+        ...gameState,
+        players,
+        phase: GamePhase.PLAYING,
+        currentPlayerId: startingPlayerId,
+        record: {
+            seed: gameState.seed,
+            initialPlayers: JSON.parse(JSON.stringify(players)),
+            startingPlayerId,
+            initialRngState: gameState.rngState,
+            actions: [],
+        },
+    };
+};
+
+/**
+ * Notes in the game's record that a player turned the coach on.
+ * @returns The same state if there is no record yet or the player is already noted.
+ */
+export const markCoached = (gameState: GameState, playerId: string): GameState => {
+    const record = gameState.record;
+    if (!record || record.coachedPlayerIds?.includes(playerId)) return gameState;
+    return { ...gameState, record: { ...record, coachedPlayerIds: [...(record.coachedPlayerIds ?? []), playerId] } };
+};
+
+/**
+ * Checks a targeting mode a player arms. Only the mode itself is taken from the action: the ship
+ * being placed, and where it stood, are set by the engine when the ship is selected.
+ * @returns The mode to store, or null if it isn't one the game offers.
+ */
+const toActiveAction = (gameState: GameState, playerId: string, action: ActiveAction): ActiveAction | null => {
+    if (typeof action !== 'object') return null;
+    if (action.type === 'ATTACK') return { playerId, type: 'ATTACK' };
+    if (action.type !== 'SKILL' || gameState.gameMode !== 'TACTICAL' || !isSkillShipType(action.shipType)) return null;
+    const stage = action.shipType === 'Commandship' ? 'SELECT_SHIP' : action.shipType === 'Decoyship' ? 'PLACE_DECOY' : undefined;
+    if (action.stage !== undefined && action.stage !== stage) return null;
+    return stage ? { playerId, type: 'SKILL', shipType: action.shipType, stage } : { playerId, type: 'SKILL', shipType: action.shipType };
+};
+
+const reduceAction = (gameState: GameState, action: GameAction): ActionResult => {
+    if (typeof action !== 'object' || !action) return rejectAction('INVALID_ACTION');
+    if (gameState.phase !== GamePhase.PLAYING) return rejectAction('NOT_YOUR_TURN');
+    if (action.type === 'SURRENDER') return surrender(gameState, action.playerId);
+    if (gameState.currentPlayerId !== action.playerId) return rejectAction('NOT_YOUR_TURN');
+
+    switch (action.type) {
+        case 'FIRE_SHOT': {
+            if (gameState.hasActedThisTurn) return rejectAction('ALREADY_ACTED');
+            if (!isShotAllowed(gameState, action.playerId, action.targetId, action.x, action.y)) return rejectAction('INVALID_SHOT');
+            const newState = restoreLiftedShip(cloneState(gameState));
+            newState.activeAction = null;
+            return { success: true, state: processShot(newState, action.targetId, action.x, action.y) };
+        }
+        case 'USE_SKILL':
+            return resolveSkill(gameState, action.skill);
+        case 'SELECT_ACTION': {
+            const activeAction = action.action === null ? null : toActiveAction(gameState, action.playerId, action.action);
+            if (action.action !== null && !activeAction) return rejectAction('INVALID_ACTION');
+            if (activeAction && gameState.hasActedThisTurn) return rejectAction('ALREADY_ACTED');
+            const newState = restoreLiftedShip(cloneState(gameState));
+            newState.activeAction = activeAction;
+            return { success: true, state: newState };
+        }
+        case 'SELECT_SHIP':
+            if (gameState.hasActedThisTurn) return rejectAction('ALREADY_ACTED');
+            if (action.shipType !== 'Mothership' && action.shipType !== 'Commandship') return rejectAction('INVALID_SELECTION');
+            return liftShipForPlacement(gameState, action.playerId, action.shipType, action.shipName);
+        case 'END_TURN':
+            if (!gameState.hasActedThisTurn) return rejectAction('TURN_NOT_FINISHED');
+            return { success: true, state: advanceTurn(cloneState(gameState)) };
+        default:
+            return rejectAction('INVALID_ACTION');
+    }
+};
+
+/**
+ * Applies a player action to the game. This is the single entry point for changing a game in progress,
+ * whether the action comes from a human, the AI or a remote player.
+ * Accepted actions are appended to the game's record so the game can be replayed later.
+ * @param gameState The current state. It is never mutated.
+ * @param action The action to apply.
+ * @returns The new state, or the reason the action was refused.
+ */
+export const applyAction = (gameState: GameState, action: GameAction): ActionResult => {
+    const result = reduceAction(gameState, action);
+    if (result.success === true && result.state.record) {
+        result.state.record.actions.push(action);
+    }
+    return result;
+};
@@ -1,5 +1,9 @@
-import { CellState, Grid, Player, GameState, Ship, ShipType } from '../types';
-import { createEmptyGrid } from "./gameLogic";
+import { CellState, Grid, Player, Ship, ShipType, GameLogEntry, SkillRequest, AIView, OpponentView, AIDifficulty, AIMove, AIRationale, CoachAdvice } from '../types';
+import { checkSkillAvailability } from "./skills";
+import { Rng } from "./random";
+
+// A square to fire at, and why.
+type AIShot = { x: number; y: number; rationale: AIRationale };
 
 /**
  * Checks if a ship can be placed on a grid, considering existing shots.
@@ -36,18 +40,17 @@ const canShipBePlaced = (
 
 /**
  * Builds a probability map indicating the likelihood of a ship occupying each cell.
- * @param opponent The opponent player whose ships we are trying to find.
- * @param shotsGrid The AI's grid of shots taken against the opponent.
+ * @param unsunkShips The ships still to be found, as far as the searcher knows.
+ * @param shotsGrid The searcher's grid of shots taken against the fleet.
  * @param gridDimensions The dimensions of the game grid.
  * @returns A 2D array representing the probability heatmap.
  */
 const buildProbabilityMap = (
-    opponent: Player,
+    unsunkShips: { length: number }[],
     shotsGrid: Grid,
     gridDimensions: { rows: number, cols: number }
 ): number[][] => {
     const probabilityMap: number[][] = Array(gridDimensions.rows).fill(0).map(() => Array(gridDimensions.cols).fill(0));
-    const unsunkShips = opponent.ships.filter(ship => !ship.isSunk);
 
     // Get all known HIT locations that are not yet part of a SUNK ship.
     const hitCells: { x: number, y: number }[] = [];
@@ -162,46 +165,59 @@ const findBestRadarSpot = (probabilityMap: number[][], gridDimensions: { rows: n
 };
 
 /**
- * Finds the best place to deploy a decoy, which is a large area of low probability.
- * @param probabilityMap The probability heatmap.
- * @param shotsGrid The AI's record of shots.
+ * Finds where to jam so the enemy can't repair the damage the AI knows of: the middle of its open hits.
+ * @returns The centre of the jammed area, or null if there are no open hits.
+ */
+const findJamSpot = (shotsGrid: Grid, gridDimensions: { rows: number; cols: number }): { x: number; y: number } | null => {
+    const hitCells = [];
+    for (let y = 0; y < gridDimensions.rows; y++) for (let x = 0; x < gridDimensions.cols; x++) if ((shotsGrid[y]?.[x] ?? CellState.EMPTY) === CellState.HIT) hitCells.push({x,y});
+    if (hitCells.length === 0) return null;
+    const center = hitCells.reduce((acc, c) => ({x: acc.x + c.x, y: acc.y + c.y}), {x:0, y:0});
+    return { x: Math.round(center.x / hitCells.length), y: Math.round(center.y / hitCells.length) };
+};
+
+/**
+ * Finds the best place on the AI's own grid to deploy a decoy: an empty square in the quietest
+ * area, where no ship, decoy or enemy shot lies next to it. A hit on the decoy then leads enemies
+ * nowhere near the real fleet.
+ * @param grid The AI's own grid.
  * @param gridDimensions The dimensions of the grid.
- * @returns A valid coordinate for decoy placement.
+ * @param rng The AI's seeded random stream, used to break ties.
+ * @returns An empty square for the decoy, or null if the grid has none.
  */
-const findBestDecoySpot = (probabilityMap: number[][], shotsGrid: Grid, gridDimensions: { rows: number; cols: number }): { x: number; y: number } | null => {
-    let minDensity = Infinity;
+const findBestDecoySpot = (grid: Grid, gridDimensions: { rows: number; cols: number }, rng: Rng): { x: number; y: number } | null => {
+    let minNeighbours = Infinity;
     const potentialSpots: { x: number; y: number }[] = [];
 
-    for (let y = 0; y < gridDimensions.rows - 1; y++) {
-        for (let x = 0; x < gridDimensions.cols - 1; x++) {
-             if ((shotsGrid[y]?.[x] ?? CellState.EMPTY) === CellState.EMPTY) {
-                const density = probabilityMap[y][x] + probabilityMap[y+1][x] + probabilityMap[y][x+1] + probabilityMap[y+1][x+1];
-                if (density < minDensity) {
-                    minDensity = density;
-                    potentialSpots.length = 0;
-                    potentialSpots.push({ x, y });
-                } else if (density === minDensity) {
-                    potentialSpots.push({ x, y });
-                }
-             }
+    for (let y = 0; y < gridDimensions.rows; y++) {
+        for (let x = 0; x < gridDimensions.cols; x++) {
+            if (grid[y][x] !== CellState.EMPTY) continue;
+            let neighbours = 0;
+            for (let dy = -1; dy <= 1; dy++) for (let dx = -1; dx <= 1; dx++) {
+                if ((grid[y + dy]?.[x + dx] ?? CellState.EMPTY) !== CellState.EMPTY) neighbours++;
+            }
+            if (neighbours < minNeighbours) {
+                minNeighbours = neighbours;
+                potentialSpots.length = 0;
+            }
+            if (neighbours === minNeighbours) potentialSpots.push({ x, y });
         }
     }
 
-    if (potentialSpots.length > 0) {
-        return potentialSpots[Math.floor(Math.random() * potentialSpots.length)];
-    }
-    return null;
+    return rng.pick(potentialSpots) ?? null;
 }
 
 /**
  * Finds a valuable, healthy ship that is in a threatened position.
+ * The threat is judged from the shots the AI's own grid shows, which is all its enemies have to go on.
  * @param aiPlayer The AI player object.
- * @param probabilityMap The opponent's probability map against the AI.
  * @returns A ship object if a suitable candidate for relocation is found.
  */
-const findShipToRelocate = (aiPlayer: Player, opponent: Player, gridDimensions: { rows: number, cols: number }): Ship | null => {
-    const opponentShotsGrid = opponent.shots[aiPlayer.id] || createEmptyGrid(gridDimensions.rows, gridDimensions.cols);
-    const opponentProbabilityMap = buildProbabilityMap(aiPlayer, opponentShotsGrid, gridDimensions);
+const findShipToRelocate = (aiPlayer: Player, gridDimensions: { rows: number, cols: number }): Ship | null => {
+    const enemyKnowledge = aiPlayer.grid.map(row => row.map(cell =>
+        cell === CellState.HIT || cell === CellState.MISS || cell === CellState.SUNK ? cell : CellState.EMPTY
+    ));
+    const opponentProbabilityMap = buildProbabilityMap(aiPlayer.ships.filter(s => !s.isSunk), enemyKnowledge, gridDimensions);
 
     const valuableShipsPriority: ShipType[] = ['Mothership', 'Repairship', 'Jamship', 'Radarship', 'Decoyship', 'Commandship'];
     
@@ -218,109 +234,365 @@ const findShipToRelocate = (aiPlayer: Player, opponent: Player, gridDimensions:
 }
 
 
+const isOwnHitOn = (view: AIView, opponent: OpponentView, entry: GameLogEntry) =>
+    entry.playerId === view.self.id && entry.targetId === opponent.id && entry.result === 'HIT' && !!entry.coords;
+
+// Whether the log entry at `index` was its player's last of the turn. The log is newest first, so `log[index - 1]` is whatever happened next.
+const endedTurn = (view: AIView, index: number) => {
+    const entry = view.log[index];
+    const next = view.log[index - 1];
+    return next ? (next.turn !== entry.turn || next.playerId !== entry.playerId) : entry.turn !== view.turn;
+};
+
+/**
+ * Finds the AI's hits on a fleet that must have struck its Mothership. Hitting any other ship
+ * earns another action, so a hit that ended the AI's turn can only have been on the Mothership.
+ * @returns The cells of those hits that are still unresolved.
+ */
+const findMothershipHits = (view: AIView, opponent: OpponentView): { x: number; y: number }[] =>
+    view.log
+        .filter((entry, i) => isOwnHitOn(view, opponent, entry) && endedTurn(view, i) && opponent.shots[entry.coords!.y]?.[entry.coords!.x] === CellState.HIT)
+        .map(entry => entry.coords!);
+
+/**
+ * Picks the cells most likely to finish off a Mothership the AI has already hit, by counting
+ * the placements of it that cover every known hit on it.
+ * @returns The best cells, or an empty list if no placement fits what the AI has seen.
+ */
+const findMothershipFinishingShots = (view: AIView, opponent: OpponentView, mothershipHits: { x: number; y: number }[]): { x: number; y: number }[] => {
+    const mothership = view.shipsConfig.find(s => s.type === 'Mothership');
+    if (!mothership) return [];
+    const { rows, cols } = view.gridDimensions;
+    const counts: number[][] = Array(rows).fill(0).map(() => Array(cols).fill(0));
+    let found = false;
+
+    for (const isHorizontal of [true, false]) {
+        for (let y = 0; y < rows; y++) {
+            for (let x = 0; x < cols; x++) {
+                const cells = Array.from({ length: mothership.length }, (_, i) => isHorizontal ? { x: x + i, y } : { x, y: y + i });
+                const fits = cells.every(c => c.x < cols && c.y < rows && [CellState.EMPTY, CellState.RADAR_CONTACT, CellState.HIT].includes(opponent.shots[c.y][c.x]));
+                if (!fits || !mothershipHits.every(hit => cells.some(c => c.x === hit.x && c.y === hit.y))) continue;
+                cells.forEach(c => { if (opponent.shots[c.y][c.x] !== CellState.HIT) { counts[c.y][c.x]++; found = true; } });
+            }
+        }
+    }
+    return found ? findBestTargets(counts, opponent.shots).filter(c => counts[c.y][c.x] > 0) : [];
+};
+
+// Each unresolved hit a placement covers multiplies its weight by this much. It outweighs any count
+// of placements through an untouched square, so the AI finishes what it has found before hunting on,
+// and a placement along two hits in a row beats any placement across them.
+const HIT_WEIGHT = 1000;
+
+// What a placement map holds for each square: `weight`, the summed weight of the placements covering
+// it, which the AI aims by; and `chance`, the expected number of ships on it, roughly how likely a shot there is to hit.
+interface PlacementMap {
+    weight: number[][];
+    chance: number[][];
+}
+
+/**
+ * Weighs every placement of each remaining ship and adds its weight to the squares it covers,
+ * skipping squares already hit.
+ * @param weighPlacement The weight of a placement given the squares it covers; 0 rules it out.
+ */
+const mapPlacements = (
+    afloatShips: { length: number }[],
+    shotsGrid: Grid,
+    gridDimensions: { rows: number, cols: number },
+    weighPlacement: (cells: { x: number, y: number }[]) => number
+): PlacementMap => {
+    const { rows, cols } = gridDimensions;
+    const weight: number[][] = Array.from({ length: rows }, () => Array(cols).fill(0));
+    const chance: number[][] = Array.from({ length: rows }, () => Array(cols).fill(0));
+
+    for (const ship of afloatShips) {
+        const placements: { cells: { x: number, y: number }[], weight: number }[] = [];
+        for (let y = 0; y < rows; y++) {
+            for (let x = 0; x < cols; x++) {
+                for (const isHorizontal of [true, false]) {
+                    if (ship.length === 1 && !isHorizontal) continue;
+                    if (isHorizontal ? x + ship.length > cols : y + ship.length > rows) continue;
+                    const cells = Array.from({ length: ship.length }, (_, i) => isHorizontal ? { x: x + i, y } : { x, y: y + i });
+                    const placementWeight = weighPlacement(cells);
+                    if (placementWeight > 0) placements.push({ cells, weight: placementWeight });
+                }
+            }
+        }
+        const total = placements.reduce((sum, p) => sum + p.weight, 0);
+        placements.forEach(p => p.cells.forEach(c => {
+            if ((shotsGrid[c.y]?.[c.x] ?? CellState.EMPTY) === CellState.HIT) return;
+            weight[c.y][c.x] += p.weight;
+            chance[c.y][c.x] += p.weight / total;
+        }));
+    }
+    return { weight, chance };
+};
+
+// Chance that a hit or radar contact is a decoy before anything else is known about it, for fleets with a Decoyship.
+const DECOY_PRIOR = 0.1;
+// How much a radar reading is still trusted each turn after the scan, since ships can be relocated.
+const RADAR_TRUST_DECAY = 0.85;
+// How likely a square whose hit was wiped by a Repair still holds the repaired ship.
+const REPAIRED_SHIP_CONFIDENCE = 0.9;
+// How much less likely a ship is on squares an escaped Mothership has just left.
+const ESCAPED_SQUARE_WEIGHT = 0.25;
+// Above this weight the best target is worth a shot rather than a skill. A skill spends the turn
+// while a hit earns another action, so only a board with no promising square is left to skills.
+const CONFIDENT_WEIGHT = 10;
+
+/**
+ * What the AI believes about an enemy fleet, beyond the bare shots grid.
+ * `hitConfidence` is the chance that each open hit is a ship rather than a decoy;
+ * `squareWeight` scales placements over unshot squares, boosting radar contacts and repaired squares
+ * and damping squares that radar found empty or that an escaped Mothership left.
+ */
+interface FleetBelief {
+    hitConfidence: number[][];
+    squareWeight: number[][];
+}
+
+/**
+ * Counts the placements of the remaining ships that cover a square, either on an empty board or
+ * around what has been shot so far.
+ */
+const countPlacementsThrough = (cell: { x: number; y: number }, afloatShips: { length: number }[], shotsGrid: Grid | null, gridDimensions: { rows: number, cols: number }): number => {
+    const isOpen = (x: number, y: number) =>
+        x >= 0 && x < gridDimensions.cols && y >= 0 && y < gridDimensions.rows &&
+        (!shotsGrid || (shotsGrid[y][x] !== CellState.MISS && shotsGrid[y][x] !== CellState.SUNK));
+    let count = 0;
+    afloatShips.forEach(ship => {
+        for (let offset = 0; offset < ship.length; offset++) {
+            const span = Array.from({ length: ship.length }, (_, i) => i - offset);
+            if (span.every(d => isOpen(cell.x + d, cell.y))) count++;
+            if (ship.length > 1 && span.every(d => isOpen(cell.x, cell.y + d))) count++;
+        }
+    });
+    return count;
+};
+
+/**
+ * Weighs the evidence the AI has gathered against a fleet.
+ * A hit is a ship or a decoy. Missing around it makes a ship less likely, since fewer placements
+ * are left to explain it, but doesn't change the odds of a decoy, so the chance it is a ship is
+ * updated by the share of its placements that survive. Hits that ended the AI's turn were on the
+ * Mothership, which decoys never are.
+ * Radar contacts count as likely hits and empty radar squares as unlikely ones, both fading as the
+ * scan ages. Squares the AI hit that show as unshot again were repaired, and the ship is still
+ * there, unless the hit was on the Mothership, which will have escaped.
+ * @param suspectsDecoys Whether to doubt hits that could still be ships. Radar contacts are doubted either way.
+ */
+const buildFleetBelief = (view: AIView, opponent: OpponentView, suspectsDecoys: boolean): FleetBelief => {
+    const { rows, cols } = view.gridDimensions;
+    const shots = opponent.shots;
+    const decoyPrior = view.shipsConfig.some(s => s.type === 'Decoyship') ? DECOY_PRIOR : 0;
+    // Without suspecting decoys, a hit is only written off once no ship could explain it.
+    const hitDecoyPrior = suspectsDecoys ? decoyPrior : 0;
+    const hitConfidence: number[][] = Array.from({ length: rows }, () => Array(cols).fill(0));
+    const squareWeight: number[][] = Array.from({ length: rows }, () => Array(cols).fill(1));
+    const isUnshot = (x: number, y: number) => shots[y]?.[x] === CellState.EMPTY || shots[y]?.[x] === CellState.RADAR_CONTACT;
+    const asLikelyHit = (confidence: number) => 1 + (HIT_WEIGHT - 1) * confidence;
+
+    const mothershipHits = findMothershipHits(view, opponent);
+    for (let y = 0; y < rows; y++) {
+        for (let x = 0; x < cols; x++) {
+            if (shots[y][x] !== CellState.HIT) continue;
+            if (mothershipHits.some(hit => hit.x === x && hit.y === y)) {
+                hitConfidence[y][x] = 1;
+                continue;
+            }
+            const possible = countPlacementsThrough({ x, y }, opponent.afloatShips, null, view.gridDimensions);
+            const surviving = possible > 0 ? countPlacementsThrough({ x, y }, opponent.afloatShips, shots, view.gridDimensions) / possible : 0;
+            const shipOdds = (1 - hitDecoyPrior) * surviving;
+            hitConfidence[y][x] = shipOdds > 0 ? shipOdds / (shipOdds + hitDecoyPrior) : 0;
+        }
+    }
+
+    // Newer scans overwrite older ones.
+    (view.self.radarScans ?? []).filter(scan => scan.targetId === opponent.id).forEach(scan => {
+        const trust = RADAR_TRUST_DECAY ** Math.max(0, view.turn - scan.turn);
+        scan.results.forEach(({ x, y, state }) => {
+            if (!isUnshot(x, y)) return;
+            squareWeight[y][x] = state === CellState.RADAR_CONTACT ? asLikelyHit(trust * (1 - decoyPrior)) : 1 - trust;
+        });
+    });
+
+    // Only the latest hit on a square matters; the log is newest first.
+    const seen = new Set<string>();
+    view.log.forEach((entry, i) => {
+        if (!isOwnHitOn(view, opponent, entry)) return;
+        const { x, y } = entry.coords!;
+        if (seen.has(`${x},${y}`)) return;
+        seen.add(`${x},${y}`);
+        if (isUnshot(x, y)) squareWeight[y][x] = endedTurn(view, i) ? ESCAPED_SQUARE_WEIGHT : asLikelyHit(REPAIRED_SHIP_CONFIDENCE);
+    });
+
+    return { hitConfidence, squareWeight };
+};
+
+/**
+ * Builds a probability map from the AI's beliefs about a fleet. Every placement of a remaining
+ * ship that crosses no miss or sunk ship is weighted by its evidence: each hit it covers counts in
+ * proportion to the chance that hit is a ship, and each unshot square by its weight.
+ */
+const buildBeliefMap = (belief: FleetBelief, afloatShips: { length: number }[], shotsGrid: Grid, gridDimensions: { rows: number, cols: number }): PlacementMap =>
+    mapPlacements(afloatShips, shotsGrid, gridDimensions, cells => {
+        let weight = 1;
+        for (const c of cells) {
+            const state = shotsGrid[c.y][c.x];
+            if (state === CellState.MISS || state === CellState.SUNK) return 0;
+            weight *= state === CellState.HIT ? HIT_WEIGHT * belief.hitConfidence[c.y][c.x] : belief.squareWeight[c.y][c.x];
+        }
+        return weight;
+    });
+
+// The shots grid with the hits the AI believes were decoys marked as misses.
+const writeOffDecoyHits = (shotsGrid: Grid, belief: FleetBelief): Grid =>
+    shotsGrid.map((row, y) => row.map((cell, x) => cell === CellState.HIT && belief.hitConfidence[y][x] < 0.5 ? CellState.MISS : cell));
+
+/**
+ * Picks which enemy fleet the AI should attack this turn.
+ * It presses the enemy it has the most open hits against, then the one it has sunk the most of,
+ * so that one fleet is finished off instead of damage being spread thin. Used in both modes;
+ * ties are broken with the AI's seeded stream.
+ * @returns An opponent still in the game, or null if none remain.
+ */
+export const chooseAITarget = (view: AIView, rng: Rng): OpponentView | null => {
+    const opponents = view.opponents.filter(p => !p.isEliminated);
+    if (opponents.length <= 1) return opponents[0] ?? null;
+
+    // Unresolved hits are open leads: damaged ships that are cheapest to finish off.
+    // Without any, sunk cells mark the fleet that is closest to elimination.
+    const scoreOpponent = (opponent: OpponentView) => {
+        let score = 0;
+        for (const row of opponent.shots) for (const cell of row) {
+            if (cell === CellState.HIT) score += 100;
+            else if (cell === CellState.SUNK) score += 1;
+        }
+        return score;
+    };
+
+    const scores = opponents.map(scoreOpponent);
+    const bestScore = Math.max(...scores);
+    return rng.pick(opponents.filter((_, i) => scores[i] === bestScore))!;
+};
+
 /**
  * Gets a move for the AI in Tactical mode using a probability-based, multi-layered decision-making process.
+ * It plays from a redacted view of the game, so it only knows what a human in its seat could.
+ * Ties are broken with the given seeded stream so that a game seed reproduces the AI's play.
+ * @param view The AI's view of the game, from `createAIView`.
+ * @param opponent The enemy fleet to act against, from `view.opponents`.
+ * @returns The shot or skill the AI submits, in the same action form a human player would, and the reason for it.
  */
-export const getAITacticalMove = (aiPlayer: Player, opponent: Player, gameState: GameState): any => {
-    const { gridDimensions } = gameState;
-    const shotsGrid = aiPlayer.shots[opponent.id] || createEmptyGrid(gridDimensions.rows, gridDimensions.cols);
-    const probabilityMap = buildProbabilityMap(opponent, shotsGrid, gridDimensions);
+export const getAITacticalMove = (view: AIView, opponent: OpponentView, rng: Rng): AIMove => {
+    const { gridDimensions, self: aiPlayer } = view;
+    const difficulty = aiPlayer.aiDifficulty ?? 'NORMAL';
+    const attack = (coords: { x: number; y: number }, rationale: AIRationale): AIMove =>
+        ({ action: { type: 'FIRE_SHOT', playerId: aiPlayer.id, targetId: opponent.id, x: coords.x, y: coords.y }, rationale });
+    const attackShot = ({ rationale, ...coords }: AIShot): AIMove => attack(coords, rationale);
+    const useSkill = (skill: SkillRequest, rationale: AIRationale): AIMove => ({ action: { type: 'USE_SKILL', playerId: aiPlayer.id, skill }, rationale });
+    const isSkillReady = (shipType: ShipType) => checkSkillAvailability(aiPlayer, shipType) === null;
+    // An EASY AI doesn't bother with skills.
+    if (difficulty === 'EASY') return attackShot(pickShot(difficulty, opponent, gridDimensions, rng));
+
+    // HARD and EXPERT AIs weigh what they have learned about the fleet; a NORMAL AI only goes by the shots grid.
+    const belief = difficulty === 'NORMAL' ? null : buildFleetBelief(view, opponent, difficulty === 'EXPERT');
+    const beliefMap = belief ? buildBeliefMap(belief, opponent.afloatShips, opponent.shots, gridDimensions) : null;
+    const probabilityMap = beliefMap ? beliefMap.weight : buildProbabilityMap(opponent.afloatShips, opponent.shots, gridDimensions);
+    const bestOdds = (coords: { x: number; y: number }): AIRationale => ({ reason: 'HIGH_PROBABILITY', coords, chance: beliefMap?.chance[coords.y][coords.x] });
+    // From here on, hits the AI believes were decoys count as misses.
+    const shotsGrid = belief ? writeOffDecoyHits(opponent.shots, belief) : opponent.shots;
+    const hasOpenHits = shotsGrid.some(row => row.includes(CellState.HIT));
 
     // --- AI DECISION TREE (MASTER TACTICIAN) ---
 
     // PRIORITY 1: URGENT ACTIONS (WIN/SURVIVE)
     const mothership = aiPlayer.ships.find(s => s.type === 'Mothership');
     if (mothership) {
-        if (mothership.isDamaged && aiPlayer.escapeSkillUnlocked && (aiPlayer.skillUses?.Mothership ?? 0) > 0) {
-            return { action: "SKILL", shipType: "Mothership" };
+        if (mothership.isDamaged && isSkillReady('Mothership')) {
+            return useSkill({ shipType: "Mothership" }, { reason: 'ESCAPE', shipName: mothership.name });
         }
-        if (mothership.isDamaged && (aiPlayer.skillCooldowns?.Repairship ?? 0) === 0 && !mothership.hasBeenRepaired) {
-            const repairableDamage = mothership.positions.find(pos => aiPlayer.grid[pos.y][pos.x] === CellState.HIT && (gameState.hitLog?.[aiPlayer.id]?.[`${pos.x},${pos.y}`] ?? 999) < gameState.turn);
+        if (mothership.isDamaged && isSkillReady('Repairship') && !mothership.hasBeenRepaired) {
+            const repairableDamage = mothership.positions.find(pos => aiPlayer.grid[pos.y][pos.x] === CellState.HIT && (view.ownHitLog[`${pos.x},${pos.y}`] ?? 999) < view.turn);
             if (repairableDamage) {
-                return { action: "SKILL", shipType: "Repairship", coords: repairableDamage };
+                return useSkill({ shipType: "Repairship", x: repairableDamage.x, y: repairableDamage.y }, { reason: 'REPAIR_MOTHERSHIP', coords: repairableDamage, shipName: mothership.name });
             }
         }
     }
-    const opponentMothership = opponent.ships.find(s => s.type === 'Mothership');
-    if (opponentMothership && opponentMothership.isDamaged) {
-        const hitsOnMothership = opponentMothership.positions.filter(pos => (shotsGrid[pos.y]?.[pos.x] ?? CellState.EMPTY) === CellState.HIT);
-        if (hitsOnMothership.length === opponentMothership.length - 1) {
-            const winningShot = opponentMothership.positions.find(pos => (shotsGrid[pos.y]?.[pos.x] ?? CellState.EMPTY) === CellState.EMPTY);
-            if (winningShot) return { action: "ATTACK", coords: winningShot };
-        }
+    const mothershipHits = findMothershipHits(view, opponent);
+    if (mothershipHits.length > 0) {
+        const finishingShot = rng.pick(findMothershipFinishingShots(view, opponent, mothershipHits));
+        if (finishingShot) return attack(finishingShot, { reason: 'FINISH_MOTHERSHIP', coords: finishingShot });
     }
 
     // PRIORITY 2: OFFENSIVE EXECUTION & STRATEGIC POSTURING
     const bestTargets = findBestTargets(probabilityMap, shotsGrid);
-    const bestTarget = bestTargets[Math.floor(Math.random() * bestTargets.length)];
+    const bestTarget = rng.pick(bestTargets);
 
     // If confidence is high, it's better to attack than use a skill
-    if (bestTarget && probabilityMap[bestTarget.y][bestTarget.x] > 10) {
-        return { action: "ATTACK", coords: bestTarget };
+    if (bestTarget && probabilityMap[bestTarget.y][bestTarget.x] > CONFIDENT_WEIGHT) {
+        return attack(bestTarget, bestOdds(bestTarget));
     }
 
-    // Jammer to prevent repairs on a damaged ship
-    const opponentRepairShip = opponent.ships.find(s => s.type === 'Repairship');
-    const hasDamagedOpponent = opponent.ships.some(s => s.isDamaged);
-    if ((aiPlayer.skillCooldowns?.Jamship ?? 0) === 0 && hasDamagedOpponent && opponentRepairShip && !opponentRepairShip.isSunk && (opponent.skillCooldowns?.Repairship ?? 0) === 0) {
-        const hitCells = [];
-        for (let y = 0; y < gridDimensions.rows; y++) for (let x = 0; x < gridDimensions.cols; x++) if ((shotsGrid[y]?.[x] ?? CellState.EMPTY) === CellState.HIT) hitCells.push({x,y});
-        if (hitCells.length > 0) {
-            const center = hitCells.reduce((acc, c) => ({x: acc.x + c.x, y: acc.y + c.y}), {x:0, y:0});
-            center.x = Math.round(center.x / hitCells.length);
-            center.y = Math.round(center.y / hitCells.length);
-            return { action: "SKILL", shipType: "Jamship", coords: center };
-        }
+    // Jammer to prevent repairs on a damaged ship. Open hits are the damage the AI knows of;
+    // the enemy's repair cooldown is hidden, so a Repairship afloat is assumed ready.
+    const opponentHasRepairship = opponent.afloatShips.some(s => s.type === 'Repairship');
+    if (isSkillReady('Jamship') && opponentHasRepairship) {
+        const jamSpot = findJamSpot(shotsGrid, gridDimensions);
+        if (jamSpot) return useSkill({ shipType: "Jamship", targetId: opponent.id, x: jamSpot.x, y: jamSpot.y }, { reason: 'JAM_REPAIR', coords: jamSpot });
     }
 
     // Strategic relocation
-    if ((aiPlayer.skillCooldowns?.Commandship ?? 0) === 0) {
-        const shipToSave = findShipToRelocate(aiPlayer, opponent, gridDimensions);
-        if (shipToSave) return { action: "SKILL", shipType: "Commandship", targetShipType: shipToSave.type };
+    if (isSkillReady('Commandship')) {
+        const shipToSave = findShipToRelocate(aiPlayer, gridDimensions);
+        if (shipToSave) return useSkill({ shipType: "Commandship", shipName: shipToSave.name }, { reason: 'RELOCATE', shipName: shipToSave.name });
     }
 
     // Proactive repair of valuable ships
-    if ((aiPlayer.skillCooldowns?.Repairship ?? 0) === 0) {
+    if (isSkillReady('Repairship')) {
          const damagedShips = aiPlayer.ships.filter(s => s.isDamaged && !s.isSunk && !s.hasBeenRepaired && s.type !== 'Mothership');
          if (damagedShips.length > 0) {
             const shipToRepair = damagedShips.sort((a, b) => b.length - a.length)[0];
-            const repairableDamage = shipToRepair.positions.find(pos => aiPlayer.grid[pos.y][pos.x] === CellState.HIT && (gameState.hitLog?.[aiPlayer.id]?.[`${pos.x},${pos.y}`] ?? 999) < gameState.turn);
-            if (repairableDamage) return { action: "SKILL", shipType: "Repairship", coords: repairableDamage };
+            const repairableDamage = shipToRepair.positions.find(pos => aiPlayer.grid[pos.y][pos.x] === CellState.HIT && (view.ownHitLog[`${pos.x},${pos.y}`] ?? 999) < view.turn);
+            if (repairableDamage) return useSkill({ shipType: "Repairship", x: repairableDamage.x, y: repairableDamage.y }, { reason: 'REPAIR', coords: repairableDamage, shipName: shipToRepair.name });
          }
     }
 
     // PRIORITY 3: INTELLIGENCE GATHERING & HUNTING
-    // Use Radar on the most probable area
-    if ((aiPlayer.skillCooldowns?.Radarship ?? 0) === 0) {
+    // Use Radar on the most probable area. An EXPERT saves it for when there is no open hit to chase.
+    if (isSkillReady('Radarship') && (difficulty !== 'EXPERT' || !hasOpenHits)) {
         const radarSpot = findBestRadarSpot(probabilityMap, gridDimensions);
-        if(radarSpot) return { action: "SKILL", shipType: "Radarship", coords: radarSpot };
+        if(radarSpot) return useSkill({ shipType: "Radarship", targetId: opponent.id, x: radarSpot.x, y: radarSpot.y }, { reason: 'RADAR', coords: radarSpot });
     }
     
-    // Deploy decoys in low-probability areas
-    if ((aiPlayer.skillUses?.Decoyship ?? 0) > 0) {
-        const decoySpot = findBestDecoySpot(probabilityMap, shotsGrid, gridDimensions);
-        if (decoySpot) return { action: "SKILL", shipType: "Decoyship", coords: decoySpot };
+    // Deploy decoys in quiet areas of the AI's own grid
+    if (isSkillReady('Decoyship')) {
+        const decoySpot = findBestDecoySpot(aiPlayer.grid, gridDimensions, rng);
+        // Where the decoy went stays out of the rationale, which other players may read.
+        if (decoySpot) return useSkill({ shipType: "Decoyship", x: decoySpot.x, y: decoySpot.y }, { reason: 'DECOY' });
     }
 
     // PRIORITY 4: DEFAULT ATTACK
     // If no strategic move is made, attack the highest probability cell
     if (bestTarget) {
-        return { action: "ATTACK", coords: bestTarget };
+        return attack(bestTarget, bestOdds(bestTarget));
     }
 
     // Absolute fallback if no valid moves are found (should be rare)
     const emptyCells = [];
     for(let y=0; y<gridDimensions.rows; y++) for(let x=0; x<gridDimensions.cols; x++) if((shotsGrid[y]?.[x] ?? CellState.EMPTY) === CellState.EMPTY) emptyCells.push({x,y});
-    const randomTarget = emptyCells[Math.floor(Math.random() * emptyCells.length)] || {x:0, y:0};
-    return { action: "ATTACK", coords: randomTarget };
+    const randomTarget = rng.pick(emptyCells) || {x:0, y:0};
+    return attack(randomTarget, { reason: 'FALLBACK', coords: randomTarget });
 };
 
 
 /**
- * Gets a move for the AI in Classic mode using local logic.
- * It follows a Hunt/Target strategy.
+ * Picks a shot with a Hunt/Target strategy: a checkerboard sweep, then the cells around any hit.
+ * @param followUpChance How often an open hit is followed up; otherwise the hunt carries on.
+ * @param useCheckerboard Whether to hunt on the checkerboard, or at any open square.
  */
-export const getAIMove = (shotsGrid: Grid, gridDimensions: { rows: number, cols: number }): { x: number, y: number } => {
+const pickHuntTargetShot = (shotsGrid: Grid, gridDimensions: { rows: number, cols: number }, rng: Rng, followUpChance = 1, useCheckerboard = true): AIShot => {
     const hitCells: { x: number, y: number }[] = [];
     const emptyCells: { x: number, y: number }[] = [];
     const huntCells: { x: number, y: number }[] = [];
@@ -332,7 +604,7 @@ export const getAIMove = (shotsGrid: Grid, gridDimensions: { rows: number, cols:
                 hitCells.push({ x, y });
             } else if (cellState === CellState.EMPTY) {
                 emptyCells.push({ x, y });
-                if ((x + y) % 2 === 0) { // Checkerboard pattern for efficient hunting
+                if (useCheckerboard && (x + y) % 2 === 0) { // Checkerboard pattern for efficient hunting
                     huntCells.push({ x, y });
                 }
             }
@@ -340,7 +612,7 @@ export const getAIMove = (shotsGrid: Grid, gridDimensions: { rows: number, cols:
     }
 
     // TARGET MODE: If there are hits, attack adjacent cells to sink the ship.
-    if (hitCells.length > 0) {
+    if (hitCells.length > 0 && (followUpChance >= 1 || rng.next() < followUpChance)) {
         const potentialTargets: { x: number, y: number }[] = [];
         for (const hit of hitCells) {
             const adjacent = [
@@ -355,14 +627,165 @@ export const getAIMove = (shotsGrid: Grid, gridDimensions: { rows: number, cols:
                 }
             }
         }
-        if (potentialTargets.length > 0) return potentialTargets[Math.floor(Math.random() * potentialTargets.length)];
+        const target = rng.pick(potentialTargets);
+        if (target) return { ...target, rationale: { reason: 'FOLLOW_UP', coords: target } };
     }
 
     // HUNT MODE: Use checkerboard pattern if no active targets.
-    if (huntCells.length > 0) return huntCells[Math.floor(Math.random() * huntCells.length)];
+    const huntCell = rng.pick(huntCells);
+    if (huntCell) return { ...huntCell, rationale: { reason: 'HUNT', coords: huntCell } };
     
-    // FALLBACK: If checkerboard is full, pick any remaining empty cell.
-    if (emptyCells.length > 0) return emptyCells[Math.floor(Math.random() * emptyCells.length)];
+    // FALLBACK: If checkerboard is full or not in use, pick any remaining empty cell.
+    const emptyCell = rng.pick(emptyCells) ?? { x: 0, y: 0 };
+    return { ...emptyCell, rationale: { reason: 'RANDOM', coords: emptyCell } };
+};
+
+/**
+ * Treats hits that none of the fleet's remaining ships could account for as decoys, marking them
+ * as misses so they stop drawing fire. A decoy reports a hit, but no ship is ever found around it.
+ * @returns A copy of the shots grid with the suspected decoy hits marked as misses.
+ */
+const discountDecoyHits = (shotsGrid: Grid, afloatShips: { length: number }[], gridDimensions: { rows: number, cols: number }): Grid => {
+    const isBlocked = (x: number, y: number) =>
+        x < 0 || x >= gridDimensions.cols || y < 0 || y >= gridDimensions.rows || shotsGrid[y]?.[x] === CellState.MISS || shotsGrid[y]?.[x] === CellState.SUNK;
+    const couldBeShip = (x: number, y: number) => afloatShips.some(ship => {
+        for (let offset = 0; offset < ship.length; offset++) {
+            const cells = Array.from({ length: ship.length }, (_, i) => i - offset);
+            if (cells.every(d => !isBlocked(x + d, y)) || cells.every(d => !isBlocked(x, y + d))) return true;
+        }
+        return false;
+    });
+
+    return shotsGrid.map((row, y) => row.map((cell, x) => cell === CellState.HIT && !couldBeShip(x, y) ? CellState.MISS : cell));
+};
+
+/**
+ * Builds a density map of where the remaining ships can be. Every placement of every ship still
+ * afloat that stays on the board and crosses no miss or sunk ship counts, each unresolved hit it
+ * covers multiplying its weight.
+ * @param afloatShips The ships not yet announced sunk.
+ * @param shotsGrid The AI's shots at the fleet.
+ */
+const buildDensityMap = (afloatShips: { length: number }[], shotsGrid: Grid, gridDimensions: { rows: number, cols: number }): PlacementMap =>
+    mapPlacements(afloatShips, shotsGrid, gridDimensions, cells => {
+        const states = cells.map(c => shotsGrid[c.y]?.[c.x] ?? CellState.EMPTY);
+        if (states.some(state => state === CellState.MISS || state === CellState.SUNK)) return 0;
+        return HIT_WEIGHT ** states.filter(state => state === CellState.HIT).length;
+    });
+
+/**
+ * Picks the densest open square. While it has no unresolved hits the AI hunts on a parity
+ * pattern: the smallest ship left covers one of every `length` diagonals, so only that share of
+ * the board needs searching. It starts on whichever set of diagonals holds the most weight.
+ */
+const pickDensityShot = (shotsGrid: Grid, afloatShips: { length: number }[], gridDimensions: { rows: number, cols: number }, rng: Rng): AIShot | undefined => {
+    const { weight: density, chance } = buildDensityMap(afloatShips, shotsGrid, gridDimensions);
+    let openCells: { x: number, y: number }[] = [];
+    shotsGrid.forEach((row, y) => row.forEach((cell, x) => {
+        if (cell === CellState.EMPTY || cell === CellState.RADAR_CONTACT) openCells.push({ x, y });
+    }));
+
+    const isTargeting = shotsGrid.some(row => row.includes(CellState.HIT));
+    const spacing = Math.min(...afloatShips.map(ship => ship.length));
+    const isHunting = !isTargeting && spacing > 1 && Number.isFinite(spacing);
+    if (isHunting) {
+        // Stick with the diagonals already being swept; switching halfway wastes the shots so far.
+        const shotsByDiagonal: number[] = Array(spacing).fill(0);
+        const weightByDiagonal: number[] = Array(spacing).fill(0);
+        shotsGrid.forEach((row, y) => row.forEach((cell, x) => {
+            if (cell === CellState.MISS || cell === CellState.SUNK) shotsByDiagonal[(x + y) % spacing]++;
+        }));
+        openCells.forEach(({ x, y }) => { weightByDiagonal[(x + y) % spacing] += density[y][x]; });
+        const diagonal = weightByDiagonal
+            .map((weight, d) => ({ d, shots: shotsByDiagonal[d], weight }))
+            .sort((a, b) => b.shots - a.shots || b.weight - a.weight)[0].d;
+        const onPattern = openCells.filter(({ x, y }) => (x + y) % spacing === diagonal);
+        if (onPattern.some(({ x, y }) => density[y][x] > 0)) openCells = onPattern;
+    }
 
-    return { x: 0, y: 0 };
+    const best = Math.max(...openCells.map(({ x, y }) => density[y][x]));
+    const cell = rng.pick(openCells.filter(({ x, y }) => density[y][x] === best));
+    return cell && { ...cell, rationale: { reason: isHunting ? 'HUNT' : 'HIGH_PROBABILITY', coords: cell, chance: chance[cell.y][cell.x] } };
 };
+
+// How often an EASY AI follows up a hit rather than firing somewhere else at random.
+const EASY_FOLLOW_UP_CHANCE = 0.5;
+
+/**
+ * Picks a shot the way the given difficulty aims:
+ * EASY fires at random open squares and follows up only half its hits. NORMAL hunts on a
+ * checkerboard and follows up every hit. HARD follows a density map of every placement the
+ * remaining ships could have. EXPERT does the same while ignoring hits it has worked out were decoys.
+ */
+const pickShot = (difficulty: AIDifficulty, opponent: OpponentView, gridDimensions: { rows: number, cols: number }, rng: Rng): AIShot => {
+    if (difficulty === 'EASY') return pickHuntTargetShot(opponent.shots, gridDimensions, rng, EASY_FOLLOW_UP_CHANCE, false);
+    if (difficulty === 'NORMAL') return pickHuntTargetShot(opponent.shots, gridDimensions, rng);
+
+    const shotsGrid = difficulty === 'EXPERT' ? discountDecoyHits(opponent.shots, opponent.afloatShips, gridDimensions) : opponent.shots;
+    return pickDensityShot(shotsGrid, opponent.afloatShips, gridDimensions, rng) ?? pickHuntTargetShot(opponent.shots, gridDimensions, rng);
+};
+
+/**
+ * Gets a shot for the AI in Classic mode, aimed according to the AI player's difficulty.
+ * Also the fallback when a Tactical AI's chosen move is refused.
+ * @param view The AI's view of the game, from `createAIView`.
+ * @param opponent The enemy fleet to fire at, from `view.opponents`.
+ * @returns The square to fire at, and the reason for it.
+ */
+export const getAIMove = (view: AIView, opponent: OpponentView, rng: Rng): AIShot =>
+    pickShot(view.self.aiDifficulty ?? 'NORMAL', opponent, view.gridDimensions, rng);
+
+// The coach suggests a skill only while its best shot is more likely to miss than hit. A hit earns
+// another action, so a likely hit is worth more than any skill.
+const COACH_SKILL_THRESHOLD = 0.5;
+
+/**
+ * Works out the coach's advice for a human player against an enemy fleet: the odds on every
+ * square, the best shot, and in Tactical games whether Radar or Jam would do more this turn.
+ * It reads the board the way an EXPERT AI does, but from the player's own view of the game, so it
+ * knows nothing the player doesn't. It draws no random numbers, so the coach can't change how the
+ * game plays out; ties go to the first square.
+ * @param view The player's view of the game, from `createAIView`.
+ * @param opponent The enemy fleet the player is aiming at, from `view.opponents`.
+ */
+export const getCoachAdvice = (view: AIView, opponent: OpponentView): CoachAdvice => {
+    const { gridDimensions, self: player } = view;
+    const isTactical = view.gameMode === 'TACTICAL';
+    let map: PlacementMap;
+    let shotsGrid: Grid;
+    if (isTactical) {
+        const belief = buildFleetBelief(view, opponent, true);
+        map = buildBeliefMap(belief, opponent.afloatShips, opponent.shots, gridDimensions);
+        shotsGrid = writeOffDecoyHits(opponent.shots, belief);
+    } else {
+        shotsGrid = discountDecoyHits(opponent.shots, opponent.afloatShips, gridDimensions);
+        map = buildDensityMap(opponent.afloatShips, shotsGrid, gridDimensions);
+    }
+    const heatmap = map.chance.map((row, y) => row.map((chance, x) =>
+        opponent.shots[y][x] === CellState.EMPTY || opponent.shots[y][x] === CellState.RADAR_CONTACT ? Math.min(1, chance) : 0
+    ));
+
+    // A hit known to be on the Mothership is followed up before anything else, as the AI would.
+    const mothershipHits = isTactical ? findMothershipHits(view, opponent) : [];
+    const finishingShots = mothershipHits.length > 0 ? findMothershipFinishingShots(view, opponent, mothershipHits) : [];
+    const best = finishingShots[0] ?? findBestTargets(map.weight, shotsGrid)[0];
+    const bestShot = best ? { ...best, chance: heatmap[best.y][best.x] } : null;
+
+    let skill: CoachAdvice['skill'] = null;
+    if (isTactical && finishingShots.length === 0 && (!bestShot || bestShot.chance < COACH_SKILL_THRESHOLD)) {
+        const isSkillReady = (shipType: ShipType) => checkSkillAvailability(player, shipType) === null;
+        const jamSpot = isSkillReady('Jamship') && opponent.afloatShips.some(s => s.type === 'Repairship') ? findJamSpot(shotsGrid, gridDimensions) : null;
+        const hasOpenHits = shotsGrid.some(row => row.includes(CellState.HIT));
+        if (jamSpot) skill = { shipType: 'Jamship', ...jamSpot };
+        // Radar finds ships; with a hit still to chase, there is one to finish first.
+        else if (isSkillReady('Radarship') && !hasOpenHits) skill = { shipType: 'Radarship', ...findBestRadarSpot(map.weight, gridDimensions) };
+    }
+    return { heatmap, bestShot, skill };
+};
+
+/**
+ * Gets a shot for an AI that has run out of thinking time. It hunts and targets the way a NORMAL
+ * AI does, which needs no probability map, so it costs next to nothing at any board size.
+ */
+export const getQuickAIMove = (view: AIView, opponent: OpponentView, rng: Rng): AIShot =>
+    pickHuntTargetShot(opponent.shots, view.gridDimensions, rng);
@@ -0,0 +1,102 @@
+import { AIDecision, CellState, GameLogEntry, GameState, Grid, Player } from '../types';
+import { areAllies, createEmptyGrid } from './gameLogic';
+
+// Decisions an AI makes about its own fleet, whose squares and ship names would give that fleet away.
+const FLEET_REASONS = ['ESCAPE', 'REPAIR_MOTHERSHIP', 'RELOCATE', 'REPAIR', 'DECOY'];
+
+/**
+ * Strips a log entry down to what every player sees in the game log. Which ship a shot hit and
+ * where a skill was aimed stay private; sinkings are announced by name.
+ */
+export const toPublicLogEntry = (entry: GameLogEntry): GameLogEntry => {
+    const { hitShipName, message, ...visible } = entry;
+    if (entry.result === 'SKILL_USED') {
+        const { coords, ...withoutCoords } = visible;
+        return withoutCoords;
+    }
+    return visible;
+};
+
+/**
+ * Strips a log entry down to what one player may see: their own entries in full, bar which enemy
+ * ship their shots hit, and everyone else's as in the public log, plus which of their own ships was hit.
+ */
+const toPlayerLogEntry = (entry: GameLogEntry, viewerId: string): GameLogEntry => {
+    if (entry.playerId === viewerId) {
+        const { hitShipName, ...visible } = entry;
+        return visible;
+    }
+    const visible = toPublicLogEntry(entry);
+    return entry.targetId === viewerId && entry.hitShipName ? { ...visible, hitShipName: entry.hitShipName } : visible;
+};
+
+/**
+ * An enemy as one player knows them: their name and standing, the ships they have lost, where those
+ * lay, and the shots they fired at the viewer's side, which show on the viewer's own boards anyway.
+ */
+const toEnemyView = (enemy: Player, isOnViewerSide: (playerId: string) => boolean, rows: number, cols: number): Player => {
+    const grid: Grid = createEmptyGrid(rows, cols);
+    enemy.ships.filter(ship => ship.isSunk).forEach(ship => ship.positions.forEach(pos => { grid[pos.y][pos.x] = CellState.SUNK; }));
+    const shots: Player['shots'] = {};
+    Object.keys(enemy.shots).filter(isOnViewerSide).forEach(targetId => {
+        // Where an enemy Radar scan found ships is theirs to know.
+        shots[targetId] = enemy.shots[targetId].map(row => row.map(cell => cell === CellState.RADAR_CONTACT ? CellState.EMPTY : cell));
+    });
+    return {
+        ...enemy,
+        grid,
+        ships: enemy.ships.map(ship => ship.isSunk
+            ? { ...ship, isDamaged: false, hasBeenRepaired: false, hasBeenRelocated: false }
+            : { ...ship, positions: [], isDamaged: false, hasBeenRepaired: false, hasBeenRelocated: false }),
+        shots,
+        skillCooldowns: {},
+        skillUses: {},
+        decoyPositions: [],
+        jammedPositions: [],
+        jamTurnsRemaining: 0,
+        escapeSkillUnlocked: false,
+        radarScans: undefined,
+    };
+};
+
+// An enemy AI's reasoning about where to shoot is fair to show; its reasoning about its own fleet is not.
+const toVisibleDecision = (decision: AIDecision, isOnViewerSide: (playerId: string) => boolean): AIDecision => {
+    if (isOnViewerSide(decision.playerId) || !FLEET_REASONS.includes(decision.rationale.reason)) return decision;
+    return { ...decision, rationale: { reason: decision.rationale.reason } };
+};
+
+/**
+ * Builds the copy of a game that one player is entitled to see, which is all the game screen, the
+ * game log and the AI ever get. The player and their allies keep their fleets and shot grids.
+ * Enemies are reduced to their names, standing, sunk ships and the shots they fired at the player's
+ * side: unsunk ship positions, decoys, cooldowns, skill uses and the squares they jammed are left out.
+ * So are the seed, random state and record, since they would let a client predict the engine's
+ * draws or rebuild the enemy fleets. Projecting a projection gives the same view.
+ * @param gameState The full game state.
+ * @param playerId The player the copy is for. An ID that is no player's, such as a spectator's,
+ * gets what is public: every fleet is treated as an enemy's.
+ */
+export const projectStateForPlayer = (gameState: GameState, playerId: string): GameState => {
+    const viewer = gameState.players.find(p => p.id === playerId);
+    const { rows, cols } = gameState.gridDimensions;
+    const state: GameState = JSON.parse(JSON.stringify(gameState));
+    const sideIds = viewer ? state.players.filter(p => p.id === viewer.id || areAllies(p, viewer)).map(p => p.id) : [];
+    const isOnViewerSide = (id: string) => sideIds.includes(id);
+
+    state.players = state.players.map(player => isOnViewerSide(player.id) ? player : toEnemyView(player, isOnViewerSide, rows, cols));
+    state.log = state.log.map(entry => toPlayerLogEntry(entry, playerId));
+    if (state.activeAction?.playerId !== playerId) state.activeAction = null;
+    if (state.radarScanResult?.playerId !== playerId) state.radarScanResult = null;
+    // A jam is known to the side that cast it and to the side whose ships it holds.
+    if (state.jammedArea && !isOnViewerSide(state.jammedArea.playerId) && !(state.jammedArea.jammerId && isOnViewerSide(state.jammedArea.jammerId))) {
+        state.jammedArea = null;
+    }
+    state.hitLog = Object.fromEntries(Object.entries(state.hitLog ?? {}).filter(([id]) => isOnViewerSide(id)));
+    state.lastHitTurn = {};
+    state.aiDecisions = state.aiDecisions?.map(decision => toVisibleDecision(decision, isOnViewerSide));
+    state.seed = '';
+    state.rngState = 0;
+    state.aiRngState = 0;
+    state.record = undefined;
+    return state;
+};
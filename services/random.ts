@@ -0,0 +1,58 @@
+/**
+ * A small seeded pseudo-random number generator (mulberry32).
+ * Its whole state is one 32-bit integer, so it can be stored on the GameState and resumed later.
+ */
+export interface Rng {
+    /** Returns a float in [0, 1). */
+    next: () => number;
+    /** Returns an integer in [0, maxExclusive). */
+    nextInt: (maxExclusive: number) => number;
+    /** Returns a random element, or undefined for an empty array. */
+    pick: <T>(items: T[]) => T | undefined;
+    /** Returns the current internal state, to be stored and passed back to createRng. */
+    getState: () => number;
+}
+
+export const createRng = (initialState: number): Rng => {
+    let state = initialState >>> 0;
+
+    const next = () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+    const nextInt = (maxExclusive: number) => Math.floor(next() * maxExclusive);
+
+    return {
+        next,
+        nextInt,
+        pick: <T>(items: T[]) => (items.length > 0 ? items[nextInt(items.length)] : undefined),
+        getState: () => state,
+    };
+};
+
+/**
+ * Turns a human-readable seed into an initial generator state (32-bit FNV-1a hash).
+ */
+export const hashSeed = (seed: string): number => {
+    let hash = 0x811C9DC5;
+    for (let i = 0; i < seed.length; i++) {
+        hash ^= seed.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+/**
+ * Generates a short random seed for games started without one.
+ */
+export const generateSeed = (): string => {
+    const alphabet = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+    let seed = '';
+    for (let i = 0; i < 8; i++) {
+        seed += alphabet[Math.floor(Math.random() * alphabet.length)];
+    }
+    return seed;
+};
@@ -0,0 +1,101 @@
+import { RealtimeClientMessage, RealtimeServerMessage } from '../types';
+
+// How often a dropped connection is retried, and how long to wait between tries, before the game is given up.
+const RECONNECT_ATTEMPTS = 5;
+const RECONNECT_DELAY_MS = 2000;
+const DEFAULT_SERVER_PORT = 8787;
+
+export interface RealtimeConnection {
+    send: (message: RealtimeClientMessage) => void;
+    close: () => void;
+}
+
+/**
+ * The reference server's address on the machine serving the page, which is where `npm run server` puts it.
+ */
+export const getDefaultServerUrl = (): string => {
+    const protocol = window.location.protocol === 'https:' ? 'wss' : 'ws';
+    return `${protocol}://${window.location.hostname || 'localhost'}:${DEFAULT_SERVER_PORT}`;
+};
+
+/**
+ * Opens a connection to a realtime game server. Messages sent before the socket is open are queued.
+ * Once the server has given this client a seat, or let it watch a game, a dropped connection is
+ * retried a few times and the seat or spectator's place taken back, so a brief network loss doesn't end the game.
+ * @param url The server's WebSocket address.
+ * @param onMessage Called with every message from the server.
+ * @param onClose Called once the connection is gone for good, unless it was closed with `close`.
+ */
+export const connectToRealtimeServer = (
+    url: string,
+    onMessage: (message: RealtimeServerMessage) => void,
+    onClose: () => void,
+): RealtimeConnection => {
+    let socket: WebSocket | null = null;
+    // What to send on reconnecting to get back into the game.
+    let rejoin: RealtimeClientMessage | null = null;
+    let isClosed = false;
+    let attempts = 0;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    const outbox: string[] = [];
+
+    const giveUp = () => {
+        if (isClosed) return;
+        isClosed = true;
+        onClose();
+    };
+
+    const open = () => {
+        try {
+            socket = new WebSocket(url);
+        } catch (error) {
+            console.warn("Could not connect to the game server:", error);
+            giveUp();
+            return;
+        }
+        const current = socket;
+        current.onopen = () => {
+            attempts = 0;
+            if (rejoin) current.send(JSON.stringify(rejoin));
+            outbox.splice(0).forEach(message => current.send(message));
+        };
+        current.onmessage = (event: MessageEvent<string>) => {
+            let message: RealtimeServerMessage;
+            try {
+                message = JSON.parse(event.data);
+            } catch {
+                console.warn("Ignoring a malformed message from the game server.");
+                return;
+            }
+            if (message.type === 'ROOM_JOINED') rejoin = { type: 'REJOIN_ROOM', seat: message.seat };
+            if (message.type === 'WATCHING') rejoin = { type: 'WATCH_ROOM', roomCode: message.roomCode, spectatorName: message.spectator.name, view: message.view };
+            onMessage(message);
+        };
+        current.onclose = () => {
+            if (isClosed) return;
+            // Only a seated player or a spectator has a game to come back to.
+            if (rejoin && attempts < RECONNECT_ATTEMPTS) {
+                attempts++;
+                retryTimer = setTimeout(open, RECONNECT_DELAY_MS);
+                return;
+            }
+            giveUp();
+        };
+    };
+
+    open();
+
+    return {
+        send: (message: RealtimeClientMessage) => {
+            if (message.type === 'SET_SPECTATOR_VIEW' && rejoin?.type === 'WATCH_ROOM') rejoin = { ...rejoin, view: message.view };
+            const data = JSON.stringify(message);
+            if (socket?.readyState === WebSocket.OPEN) socket.send(data);
+            else outbox.push(data);
+        },
+        close: () => {
+            isClosed = true;
+            clearTimeout(retryTimer);
+            socket?.close();
+        },
+    };
+};
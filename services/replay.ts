@@ -0,0 +1,67 @@
+import { GameState, GameAction, GamePhase } from '../types';
+import { applyAction } from './gameLogic';
+
+export interface ReplayFrame {
+    // The action that led to this frame; null for the opening position.
+    action: GameAction | null;
+    state: GameState;
+}
+
+/**
+ * Rebuilds the game as it stood when play began, from its record.
+ * @param game A game that has a record.
+ * @returns The opening state, without a record of its own.
+ */
+export const getReplayStartState = (game: GameState): GameState => {
+    const record = game.record!;
+    return {
+        ...game,
+        players: JSON.parse(JSON.stringify(record.initialPlayers)),
+        phase: GamePhase.PLAYING,
+        currentPlayerId: record.startingPlayerId,
+        winner: null,
+        turn: 1,
+        log: [],
+        hasActedThisTurn: false,
+        turnSlot: undefined,
+        seed: record.seed,
+        rngState: record.initialRngState,
+        activeAction: null,
+        radarScanResult: null,
+        jammedArea: null,
+        hitLog: {},
+        lastHitTurn: {},
+        record: undefined,
+        aiDecisions: undefined,
+    };
+};
+
+/**
+ * Re-applies a game's recorded actions from the opening position.
+ * Targeting selections and turn ends are applied but get no frame of their own, since they change nothing on the boards.
+ * @param game A game that has a record.
+ * @returns One frame for the opening position, then one per shot, skill or surrender.
+ */
+export const buildReplayFrames = (game: GameState): ReplayFrame[] => {
+    if (!game.record) return [];
+
+    let state = getReplayStartState(game);
+    const frames: ReplayFrame[] = [{ action: null, state }];
+
+    for (const action of game.record.actions) {
+        // Hot-seat hand-overs are a UI pause, not an action; the replay plays straight through them.
+        if (state.phase === GamePhase.TURN_TRANSITION) {
+            state = { ...state, phase: GamePhase.PLAYING };
+        }
+        const result = applyAction(state, action);
+        if (result.success === false) {
+            console.warn("Replay stopped at an action the engine refused:", action, result.reason);
+            break;
+        }
+        state = result.state;
+        if (action.type === 'FIRE_SHOT' || action.type === 'USE_SKILL' || action.type === 'SURRENDER') {
+            frames.push({ action, state });
+        }
+    }
+    return frames;
+};
@@ -0,0 +1,238 @@
+import { CellState, GameLogEntry, GamePhase, GameState, Player, Ship, ShipPlacement, ShipType, SkillRejectionReason, SkillRequest, SkillResult } from '../types';
+import { canPlaceShip, placeShip, findRandomValidPlacement, areAllies } from './gameLogic';
+import { createRng } from './random';
+
+export const SKILL_REJECTION_MESSAGES: Record<SkillRejectionReason, string> = {
+    NOT_IN_PLAY: "Skills can only be used during your turn.",
+    SHIP_UNAVAILABLE: "That ship cannot use its skill right now.",
+    SKILL_LOCKED: "Escape unlocks once your Mothership has been damaged.",
+    ON_COOLDOWN: "That skill is still on cooldown.",
+    NO_USES_LEFT: "No uses left for that skill.",
+    JAMMED: "That ship is jammed this turn.",
+    INVALID_TARGET: "Invalid target for that skill.",
+    INVALID_ESCAPE_PLACEMENT: "Invalid placement for escape maneuver.",
+    INVALID_RELOCATION: "Invalid placement for relocation.",
+    CANNOT_REPAIR: "Cannot repair this part.",
+    CANNOT_PLACE_DECOY: "Cannot place decoy there.",
+};
+
+// The ships that carry a skill, which in turn are every ship type a Tactical fleet has.
+export const SKILL_SHIP_TYPES: ShipType[] = ['Mothership', 'Radarship', 'Repairship', 'Commandship', 'Decoyship', 'Jamship'];
+
+export const isSkillShipType = (value: unknown): value is ShipType => SKILL_SHIP_TYPES.includes(value as ShipType);
+
+const reject = (reason: SkillRejectionReason): SkillResult => ({ success: false, reason });
+
+// Coordinates come from clients as well as the UI, so anything but a whole number is out of bounds.
+const isInBounds = (state: GameState, x: number, y: number) =>
+    Number.isInteger(x) && Number.isInteger(y) && x >= 0 && x < state.gridDimensions.cols && y >= 0 && y < state.gridDimensions.rows;
+
+// Radar and Jam aim at one enemy fleet, which must still be in the game.
+const findSkillTarget = (state: GameState, attacker: Player, targetId: string): Player | undefined =>
+    state.players.find(p => p.id === targetId && p.id !== attacker.id && !p.isEliminated && !areAllies(p, attacker));
+
+const isShipJammed = (player: Player, ship: Ship) =>
+    !!player.jammedPositions?.some(jam => ship.positions.some(pos => pos.x === jam.x && pos.y === jam.y));
+
+/**
+ * Puts a ship that was lifted off the grid for an Escape or Relocate placement back where it was.
+ * The UI lifts the ship so the player can preview a new spot; the engine always starts from the settled fleet.
+ * @param state The game state to restore. It is mutated in place.
+ */
+export const restoreLiftedShip = (state: GameState): GameState => {
+    const action = state.activeAction;
+    if (action?.stage !== 'PLACE_SHIP' || !action.shipToMove || !action.originalPositions) return state;
+
+    const player = state.players.find(p => p.id === action.playerId);
+    const ship = player?.ships.find(s => s.name === action.shipToMove!.name);
+    if (!player || !ship || ship.positions.length > 0) return state;
+
+    ship.positions = action.originalPositions.map(pos => ({ x: pos.x, y: pos.y }));
+    action.originalPositions.forEach(pos => { player.grid[pos.y][pos.x] = pos.state; });
+    return state;
+};
+
+/**
+ * Checks whether a ship's skill can be activated at all, independent of the chosen target.
+ * @returns The reason the skill is unavailable, or null if it is ready.
+ */
+export const checkSkillAvailability = (player: Player, shipType: ShipType): SkillRejectionReason | null => {
+    const ship = player.ships.find(s => s.type === shipType);
+    if (!ship || ship.isSunk) return 'SHIP_UNAVAILABLE';
+    if (shipType === 'Commandship' && ship.isDamaged) return 'SHIP_UNAVAILABLE';
+    if (isShipJammed(player, ship)) return 'JAMMED';
+
+    if (shipType === 'Mothership') {
+        if (!player.escapeSkillUnlocked) return 'SKILL_LOCKED';
+        if ((player.skillUses?.Mothership ?? 0) <= 0) return 'NO_USES_LEFT';
+        return null;
+    }
+    if ((player.skillCooldowns[shipType] ?? 0) > 0) return 'ON_COOLDOWN';
+    const uses = player.skillUses[shipType];
+    if (uses !== undefined && uses <= 0) return 'NO_USES_LEFT';
+    return null;
+};
+
+/**
+ * Moves one of the player's ships to a new placement, or to a random valid one if none is given.
+ * Random placements draw from the game's seeded generator.
+ * @returns The previous positions of the ship, or null if the placement is invalid.
+ */
+const moveShip = (state: GameState, player: Player, ship: Ship, placement?: ShipPlacement): { x: number; y: number }[] | null => {
+    const gridWithoutShip = player.grid.map(row => [...row]);
+    ship.positions.forEach(pos => { gridWithoutShip[pos.y][pos.x] = CellState.EMPTY; });
+
+    let target = placement;
+    if (target && typeof target.isHorizontal !== 'boolean') return null;
+    if (!target) {
+        const rng = createRng(state.rngState);
+        target = findRandomValidPlacement(player, ship, state.gridDimensions, rng);
+        state.rngState = rng.getState();
+    }
+    if (!target || !canPlaceShip(gridWithoutShip, ship, target.x, target.y, target.isHorizontal, state.gridDimensions)) {
+        return null;
+    }
+
+    const previousPositions = ship.positions;
+    const { newGrid, newShip } = placeShip(gridWithoutShip, ship, target.x, target.y, target.isHorizontal);
+    ship.positions = newShip.positions;
+    player.grid = newGrid;
+    return previousPositions;
+};
+
+/**
+ * Resolves a ship skill for the current player. This is a pure function: the given state is never mutated.
+ * @param gameState The state before the skill is used.
+ * @param request The skill and its target.
+ * @returns The new state with the skill applied and the turn's action spent, or the reason the skill was refused.
+ */
+export const resolveSkill = (gameState: GameState, request: SkillRequest): SkillResult => {
+    if (gameState.phase !== GamePhase.PLAYING || gameState.hasActedThisTurn) return reject('NOT_IN_PLAY');
+
+    const state: GameState = restoreLiftedShip(JSON.parse(JSON.stringify(gameState)));
+    const attacker = state.players.find(p => p.id === state.currentPlayerId);
+    if (!attacker) return reject('NOT_IN_PLAY');
+
+    if (typeof request !== 'object' || !request || !isSkillShipType(request.shipType)) return reject('SHIP_UNAVAILABLE');
+    const unavailable = checkSkillAvailability(attacker, request.shipType);
+    if (unavailable) return reject(unavailable);
+
+    const logEntry: GameLogEntry = { turn: state.turn, playerId: attacker.id, playerName: attacker.name, result: 'SKILL_USED', message: `${request.shipType} used` };
+
+    switch (request.shipType) {
+        case 'Mothership': {
+            const mothership = attacker.ships.find(s => s.type === 'Mothership')!;
+            const previousPositions = moveShip(state, attacker, mothership, request.placement);
+            if (!previousPositions) return reject('INVALID_ESCAPE_PLACEMENT');
+
+            // The escape repairs the Mothership fully, so the old hit markers disappear from enemy grids.
+            state.players.forEach(player => {
+                if (player.id === attacker.id) return;
+                previousPositions.forEach(pos => {
+                    if (player.shots[attacker.id]?.[pos.y]?.[pos.x]) {
+                        player.shots[attacker.id][pos.y][pos.x] = CellState.EMPTY;
+                    }
+                });
+            });
+            mothership.isDamaged = false;
+            attacker.skillUses.Mothership = 0;
+            logEntry.message = `${attacker.name} used Escape! The Mothership has been repaired and relocated!`;
+            break;
+        }
+        case 'Radarship': {
+            const { x, y } = request;
+            const opponent = findSkillTarget(state, attacker, request.targetId);
+            if (!opponent || !isInBounds(state, x, y)) return reject('INVALID_TARGET');
+            const shotsGrid = attacker.shots[opponent.id];
+            const scanResults: { x: number; y: number; state: CellState }[] = [];
+            for (let i = 0; i <= 1; i++) for (let j = 0; j <= 1; j++) {
+                const checkX = x + j, checkY = y + i;
+                if (isInBounds(state, checkX, checkY) && shotsGrid?.[checkY][checkX] === CellState.EMPTY) {
+                    const opponentCell = opponent.grid[checkY][checkX];
+                    scanResults.push({ x: checkX, y: checkY, state: (opponentCell === CellState.SHIP || opponentCell === CellState.DECOY) ? CellState.RADAR_CONTACT : CellState.MISS });
+                }
+            }
+            attacker.skillCooldowns.Radarship = 3;
+            logEntry.message = `Radar Scan used on ${opponent.name}. Cooldown set to 3 turns.`;
+            logEntry.targetId = opponent.id;
+            logEntry.targetName = opponent.name;
+            state.radarScanResult = { playerId: attacker.id, targetId: opponent.id, results: scanResults };
+            attacker.radarScans = [...(attacker.radarScans ?? []), { targetId: opponent.id, turn: state.turn, results: scanResults }];
+            // Allies keep the contacts as markers on their own grids, since the scan overlay ends with this turn.
+            state.players.filter(p => areAllies(p, attacker)).forEach(ally => {
+                const allyShots = ally.shots[opponent.id];
+                scanResults.forEach(result => {
+                    if (result.state === CellState.RADAR_CONTACT && allyShots?.[result.y][result.x] === CellState.EMPTY) {
+                        allyShots[result.y][result.x] = CellState.RADAR_CONTACT;
+                    }
+                });
+            });
+            break;
+        }
+        case 'Jamship': {
+            const { x, y } = request;
+            const opponent = findSkillTarget(state, attacker, request.targetId);
+            if (!opponent || !isInBounds(state, x, y)) return reject('INVALID_TARGET');
+            const jammedCoords: { x: number; y: number }[] = [];
+            for (let i = -1; i <= 1; i++) for (let j = -1; j <= 1; j++) {
+                if (isInBounds(state, x + j, y + i)) jammedCoords.push({ x: x + j, y: y + i });
+            }
+            opponent.jammedPositions = jammedCoords;
+            opponent.jamTurnsRemaining = 1;
+            state.jammedArea = { playerId: opponent.id, jammerId: attacker.id, coords: jammedCoords };
+            attacker.skillCooldowns.Jamship = 4;
+            logEntry.message = `${attacker.name} used Jam on ${opponent.name}. Cooldown set to 4 turns.`;
+            logEntry.targetId = opponent.id;
+            logEntry.targetName = opponent.name;
+            break;
+        }
+        case 'Repairship': {
+            const { x, y } = request;
+            // Repair works on the attacker's own fleet or, in team games, on an ally's.
+            const owner = request.targetId && request.targetId !== attacker.id
+                ? state.players.find(p => p.id === request.targetId && areAllies(p, attacker) && !p.isEliminated)
+                : attacker;
+            if (!owner || !isInBounds(state, x, y)) return reject('CANNOT_REPAIR');
+            const repairedShip = owner.ships.find(s => s.positions.some(p => p.x === x && p.y === y));
+            // Damage can only be repaired from the turn after it was taken.
+            const hitTurn = state.hitLog?.[owner.id]?.[`${x},${y}`] ?? 999;
+            if (!repairedShip || repairedShip.isSunk || repairedShip.hasBeenRepaired || owner.grid[y][x] !== CellState.HIT || hitTurn >= state.turn) {
+                return reject('CANNOT_REPAIR');
+            }
+            owner.grid[y][x] = CellState.SHIP;
+            state.players.forEach(p => { if (p.shots[owner.id]) p.shots[owner.id][y][x] = CellState.EMPTY; });
+            attacker.skillCooldowns.Repairship = 3;
+            repairedShip.hasBeenRepaired = true;
+            const isStillDamaged = repairedShip.positions.some(p => owner.grid[p.y][p.x] === CellState.HIT);
+            repairedShip.isDamaged = isStillDamaged;
+            logEntry.message = owner === attacker
+                ? `${attacker.name} repaired their ${repairedShip.name}. Cooldown: 3 turns.`
+                : `${attacker.name} repaired ${owner.name}'s ${repairedShip.name}. Cooldown: 3 turns.`;
+            if (!isStillDamaged) logEntry.message += ` It's fully repaired and hidden!`;
+            break;
+        }
+        case 'Decoyship': {
+            const { x, y } = request;
+            if (!isInBounds(state, x, y) || attacker.grid[y][x] !== CellState.EMPTY) return reject('CANNOT_PLACE_DECOY');
+            attacker.grid[y][x] = CellState.DECOY;
+            attacker.decoyPositions.push({ x, y });
+            attacker.skillUses.Decoyship!--;
+            logEntry.message = `${attacker.name} deployed a decoy beacon.`;
+            break;
+        }
+        case 'Commandship': {
+            const shipToMove = attacker.ships.find(s => s.name === request.shipName);
+            if (!shipToMove || shipToMove.isDamaged || shipToMove.isSunk || shipToMove.hasBeenRelocated) return reject('INVALID_TARGET');
+            if (!moveShip(state, attacker, shipToMove, request.placement)) return reject('INVALID_RELOCATION');
+            shipToMove.hasBeenRelocated = true;
+            attacker.skillCooldowns.Commandship = 4;
+            logEntry.message = `${attacker.name} relocated their ${shipToMove.name}.`;
+            break;
+        }
+    }
+
+    state.log.unshift(logEntry);
+    state.hasActedThisTurn = true;
+    state.activeAction = null;
+    return { success: true, state };
+};
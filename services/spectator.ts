@@ -0,0 +1,81 @@
+import { CellState, GamePhase, GameState, Player, SpectatorViewMode } from '../types';
+import { buildReplayFrames } from './replay';
+import { projectStateForPlayer } from './playerView';
+
+// The omniscient view's delays offered in settings, in turns.
+export const SPECTATOR_DELAYS = [2, 4, 6, 10];
+export const DEFAULT_SPECTATOR_DELAY_TURNS = 4;
+export const MAX_SPECTATOR_DELAY_TURNS = 20;
+
+// Nobody's ID, for the view of a game that shows only what is public.
+const PUBLIC_VIEWER_ID = 'spectator';
+
+/**
+ * Rebuilds a game as it stood `delayTurns` turns ago, with every fleet in it, from the game's record.
+ * @returns The earlier state, or null if the game hasn't yet run for that many turns.
+ */
+export const getDelayedState = (game: GameState, delayTurns: number): GameState | null => {
+    const shownTurn = game.turn - delayTurns;
+    if (!game.record || shownTurn < 1) return null;
+    const frames = buildReplayFrames(game).filter(frame => frame.state.turn <= shownTurn);
+    return frames.length > 0 ? frames[frames.length - 1].state : null;
+};
+
+const hasSamePositions = (a: { x: number; y: number }[], b: { x: number; y: number }[]) =>
+    a.length === b.length && a.every(pos => b.some(other => other.x === pos.x && other.y === pos.y));
+
+/**
+ * Hides from an earlier state of a game every ship and decoy still where it was then. A ship the
+ * live game has sunk is public anyway, so only ships that have since moved or gone down are shown.
+ * @param player The player as they stood then.
+ * @param live The same player in the live game.
+ */
+const hideUnmovedFleet = (player: Player, live: Player | undefined): Player => {
+    const isUnmoved = (positions: { x: number; y: number }[]) => {
+        const liveShip = live?.ships.find(ship => hasSamePositions(ship.positions, positions));
+        return !!liveShip && !liveShip.isSunk;
+    };
+    const hiddenShips = player.ships.filter(ship => !ship.isSunk && ship.positions.length > 0 && isUnmoved(ship.positions));
+    const hiddenDecoys = (player.decoyPositions ?? []).filter(pos => live?.decoyPositions?.some(d => d.x === pos.x && d.y === pos.y));
+    const isHidden = (x: number, y: number) =>
+        hiddenShips.some(ship => ship.positions.some(pos => pos.x === x && pos.y === y)) || hiddenDecoys.some(pos => pos.x === x && pos.y === y);
+
+    return {
+        ...player,
+        // Hits on a hidden ship stay: the shots that made them are public.
+        grid: player.grid.map((row, y) => row.map((cell, x) =>
+            (cell === CellState.SHIP || cell === CellState.DECOY) && isHidden(x, y) ? CellState.EMPTY : cell)),
+        ships: player.ships.map(ship => hiddenShips.includes(ship) ? { ...ship, positions: [] } : ship),
+        decoyPositions: player.decoyPositions?.filter(pos => !hiddenDecoys.includes(pos)),
+    };
+};
+
+/**
+ * Builds what a spectator is shown of a game. Following a player shows that player's own view, live.
+ * The omniscient view shows every fleet as the game stood `delayTurns` turns ago, leaving out any ship
+ * or decoy that is still there, and just what is public until then, so a spectator can't pass on
+ * where a fleet is while it is still in play. A finished game is shown in full either way.
+ * @param game The full game state.
+ * @param delayTurns How far behind the game the omniscient view is kept.
+ */
+export const createSpectatorView = (game: GameState, view: SpectatorViewMode, delayTurns: number): GameState => {
+    if (game.phase === GamePhase.GAME_OVER) return game;
+    if (view.type === 'FOLLOW' && game.players.some(p => p.id === view.playerId)) {
+        return projectStateForPlayer(game, view.playerId);
+    }
+    const delayed = view.type === 'OMNISCIENT' ? getDelayedState(game, delayTurns) : null;
+    if (!delayed) return projectStateForPlayer(game, PUBLIC_VIEWER_ID);
+    // Spectators watch the board, not the engine: the seed and random state would give away what comes next.
+    return {
+        ...delayed,
+        players: delayed.players.map(player => hideUnmovedFleet(player, game.players.find(p => p.id === player.id))),
+        seed: '', rngState: 0, aiRngState: 0, record: undefined, aiDecisions: undefined,
+        delayTurns,
+    };
+};
+
+/**
+ * Whether a spectator view is the omniscient view of an earlier turn, which it is once the game has
+ * run past its delay, rather than only what is public.
+ */
+export const isDelayedView = (game: GameState): boolean => game.delayTurns !== undefined;
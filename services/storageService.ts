@@ -0,0 +1,186 @@
+import { GameState, SavedGame, SavedGameSummary, Settings } from '../types';
+import { DEFAULT_SPECTATOR_DELAY_TURNS } from './spectator';
+
+/**
+ * The save schema written by this build. Bump it whenever a change to `GameState` or `Player`
+ * would break older saves, and add a migration from the previous version below.
+ */
+export const SAVE_SCHEMA_VERSION = 3;
+
+const SAVE_KEY_PREFIX = 'battleship-tactics:save:';
+const SETTINGS_KEY = 'battleship-tactics:settings';
+
+export const DEFAULT_SETTINGS: Settings = {
+    coordinateSystem: 'SPREADSHEET',
+    showAIReasoning: false,
+    aiPacing: 'NORMAL',
+    aiTimeBudgetMs: 5000,
+    spectatorDelayTurns: DEFAULT_SPECTATOR_DELAY_TURNS,
+};
+
+// A parsed JSON object whose fields are still to be checked.
+export type Fields = Record<string, unknown>;
+
+export const isFields = (value: unknown): value is Fields => value !== null && typeof value === 'object' && !Array.isArray(value);
+
+// The objects in a list read from a save, skipping anything else; migrations leave those for validation to report.
+const fieldsIn = (value: unknown): Fields[] => Array.isArray(value) ? value.filter(isFields) : [];
+
+/**
+ * Upgrades the game in a save written with version `n` to version `n + 1`, in place, keyed by `n`.
+ * Migrations receive the raw parsed game and must not assume any field exists or has the right shape.
+ */
+const MIGRATIONS: Record<number, (game: Fields) => void> = {
+    // v2: Radar and Jam name the fleet they target. Version 1 games were always one-on-one.
+    1: (game) => {
+        const players = fieldsIn(game.players);
+        const opponentOf = (playerId: unknown) => players.find(p => p.id !== playerId)?.id;
+        const actions = isFields(game.record) ? fieldsIn(game.record.actions) : [];
+        actions.forEach(action => {
+            const skill = action.type === 'USE_SKILL' && isFields(action.skill) ? action.skill : undefined;
+            if (skill && (skill.shipType === 'Radarship' || skill.shipType === 'Jamship') && !skill.targetId) {
+                skill.targetId = opponentOf(action.playerId);
+            }
+        });
+    },
+    // v3: Classic ships have no type. They used to carry their name as one, which let a ship named after a skill ship use its skill.
+    2: (game) => {
+        if (game.gameMode !== 'CLASSIC') return;
+        const dropTypes = (ships: unknown) => fieldsIn(ships).forEach(ship => { delete ship.type; });
+        dropTypes(game.shipsConfig);
+        fieldsIn(game.players).forEach(player => dropTypes(player.ships));
+        if (isFields(game.record)) fieldsIn(game.record.initialPlayers).forEach(player => dropTypes(player.ships));
+    },
+};
+
+/**
+ * Brings a parsed save up to the current schema version by running each migration in turn.
+ * @param save The raw parsed save.
+ * @returns The migrated save, or null if it was written by a newer build or is missing a migration.
+ */
+export const migrateSavedGame = (save: unknown): SavedGame | null => {
+    if (!isFields(save) || typeof save.version !== 'number' || !isFields(save.game)) return null;
+    if (save.version > SAVE_SCHEMA_VERSION) return null;
+
+    let version = save.version;
+    while (version < SAVE_SCHEMA_VERSION) {
+        const migrate = MIGRATIONS[version];
+        if (!migrate) return null;
+        migrate(save.game);
+        version++;
+    }
+    return { ...save, version } as SavedGame;
+};
+
+const getStorage = (): Storage | null => {
+    try {
+        return typeof window !== 'undefined' ? window.localStorage : null;
+    } catch {
+        // Access to storage can throw when it is disabled by the browser.
+        return null;
+    }
+};
+
+const readSave = (storage: Storage, key: string): SavedGame | null => {
+    try {
+        const raw = storage.getItem(key);
+        return raw ? migrateSavedGame(JSON.parse(raw)) : null;
+    } catch (error) {
+        console.warn(`Ignoring unreadable save "${key}":`, error);
+        return null;
+    }
+};
+
+/**
+ * Writes a game to local storage, replacing any earlier save of the same game.
+ * @param game The game to save.
+ * @param localPlayerId The player this browser is playing as.
+ * @returns False if the browser refused the write (storage disabled or full).
+ */
+export const saveGame = (game: GameState, localPlayerId: string): boolean => {
+    const storage = getStorage();
+    if (!storage) return false;
+    const save: SavedGame = { version: SAVE_SCHEMA_VERSION, savedAt: Date.now(), localPlayerId, game };
+    try {
+        storage.setItem(SAVE_KEY_PREFIX + game.gameId, JSON.stringify(save));
+        return true;
+    } catch (error) {
+        console.warn("Could not save the game:", error);
+        return false;
+    }
+};
+
+/**
+ * Loads a saved game, migrating it to the current schema if needed.
+ * @returns The save, or null if it is missing or can't be read by this build.
+ */
+export const loadSavedGame = (gameId: string): SavedGame | null => {
+    const storage = getStorage();
+    return storage ? readSave(storage, SAVE_KEY_PREFIX + gameId) : null;
+};
+
+export const deleteSavedGame = (gameId: string): void => {
+    getStorage()?.removeItem(SAVE_KEY_PREFIX + gameId);
+};
+
+/**
+ * Follows a saved game as another tab or window playing it saves it, e.g. to spectate a local game.
+ * Browsers only report changes made elsewhere, so this tab's own saves are not passed on.
+ * @param onChange Called with each new save, or null once the save is deleted.
+ * @returns A function that stops following the game.
+ */
+export const watchSavedGame = (gameId: string, onChange: (save: SavedGame | null) => void): (() => void) => {
+    const storage = getStorage();
+    if (!storage) return () => {};
+    const key = SAVE_KEY_PREFIX + gameId;
+    const handleStorage = (event: StorageEvent) => {
+        if (event.key === key) onChange(readSave(storage, key));
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+};
+
+/**
+ * Lists every readable saved game, most recently saved first.
+ */
+export const listSavedGames = (): SavedGameSummary[] => {
+    const storage = getStorage();
+    if (!storage) return [];
+
+    const summaries: SavedGameSummary[] = [];
+    for (let i = 0; i < storage.length; i++) {
+        const key = storage.key(i);
+        if (!key?.startsWith(SAVE_KEY_PREFIX)) continue;
+        const save = readSave(storage, key);
+        if (!save) continue;
+        summaries.push({
+            gameId: save.game.gameId,
+            savedAt: save.savedAt,
+            gameMode: save.game.gameMode,
+            turn: save.game.turn,
+            playerNames: save.game.players.map(p => p.name),
+        });
+    }
+    return summaries.sort((a, b) => b.savedAt - a.savedAt);
+};
+
+/**
+ * Loads the player's settings. Anything missing, e.g. a setting added since they were saved, takes its default.
+ */
+export const loadSettings = (): Settings => {
+    try {
+        const raw = getStorage()?.getItem(SETTINGS_KEY);
+        return { ...DEFAULT_SETTINGS, ...(raw ? JSON.parse(raw) : {}) };
+    } catch (error) {
+        console.warn("Ignoring unreadable settings:", error);
+        return { ...DEFAULT_SETTINGS };
+    }
+};
+
+export const saveSettings = (settings: Settings): void => {
+    try {
+        getStorage()?.setItem(SETTINGS_KEY, JSON.stringify(settings));
+    } catch (error) {
+        console.warn("Could not save settings:", error);
+    }
+};
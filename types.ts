@@ -1,4 +1,4 @@
-
+import type { Rng } from './services/random';
 
 export enum GamePhase {
   LOBBY = 'LOBBY',
@@ -22,7 +22,7 @@ export type ShipType = 'Mothership' | 'Radarship' | 'Repairship' | 'Commandship'
 
 export interface Ship {
   name: string;
-  type: ShipType;
+  type?: ShipType; // Tactical ships only: the kind of ship, which gives it its skill. Classic ships have just a name.
   length: number;
   positions: { x: number; y: number }[];
   isSunk: boolean;
@@ -31,10 +31,15 @@ export interface Ship {
   hasBeenRelocated: boolean;
 }
 
+// A ship as configured for a game, before it is deployed.
+export type ShipConfig = Omit<Ship, 'positions' | 'isSunk' | 'isDamaged' | 'hasBeenRepaired' | 'hasBeenRelocated'>;
+
 export type Grid = CellState[][];
 
 export type GameMode = 'CLASSIC' | 'TACTICAL';
 
+export type AIDifficulty = 'EASY' | 'NORMAL' | 'HARD' | 'EXPERT';
+
 export interface Player {
   id: string;
   name: string;
@@ -51,6 +56,21 @@ export interface Player {
   jammedPositions?: { x: number; y: number }[];
   jamTurnsRemaining?: number;
   escapeSkillUnlocked?: boolean;
+  // Players sharing a team ID are allies. Unset in one-on-one and free-for-all games.
+  teamId?: string;
+  // AI players only. Saves written before difficulty levels existed play at NORMAL.
+  aiDifficulty?: AIDifficulty;
+  // AI players only: the registered AIStrategy that plays this fleet. Unset means the default strategy.
+  aiStrategyId?: string;
+  // Every Radar scan this player has made, oldest first. Unset until the first scan.
+  radarScans?: RadarScan[];
+}
+
+// A Radar scan as its owner saw it. Kept after the turn's scan overlay is gone, so that the contacts can still be reasoned about.
+export interface RadarScan {
+  targetId: string;
+  turn: number;
+  results: { x: number; y: number; state: CellState }[];
 }
 
 export interface GameLogEntry {
@@ -66,6 +86,17 @@ export interface GameLogEntry {
   message?: string;
 }
 
+// The targeting mode a player has armed before committing an attack or a skill.
+export interface ActiveAction {
+  playerId: string;
+  type: 'ATTACK' | 'SKILL';
+  shipType?: ShipType;
+  stage?: 'SELECT_SHIP' | 'PLACE_SHIP' | 'PLACE_DECOY';
+  shipToMove?: Ship;
+  isHorizontal?: boolean;
+  originalPositions?: { x: number; y: number; state: CellState }[];
+}
+
 export interface GameState {
   gameId: string;
   phase: GamePhase;
@@ -75,30 +106,338 @@ export interface GameState {
   maxPlayers: number;
   turn: number;
   gridDimensions: { rows: number; cols: number };
-  shipsConfig: Omit<Ship, 'positions' | 'isSunk' | 'isDamaged' | 'hasBeenRepaired' | 'hasBeenRelocated'>[];
+  shipsConfig: ShipConfig[];
   gameMode: GameMode;
   log: GameLogEntry[];
   hasActedThisTurn: boolean;
+  // Team games only: the seat whose turn it is, which an ally plays once that seat's fleet is eliminated.
+  turnSlot?: number;
+  // Seeded randomness. The engine and the AI draw from separate streams so that replaying
+  // the recorded actions reproduces the engine's draws without re-running the AI.
+  seed: string;
+  rngState: number;
+  aiRngState: number;
   // Fields for Tactical Mode
-  activeAction?: {
-    playerId: string;
-    type: 'ATTACK' | 'SKILL';
-    shipType?: ShipType;
-    stage?: 'SELECT_SHIP' | 'PLACE_SHIP' | 'PLACE_DECOY';
-    shipToMove?: Ship;
-    isHorizontal?: boolean;
-    originalPositions?: { x: number; y: number; state: CellState }[];
-  } | null;
+  activeAction?: ActiveAction | null;
   radarScanResult?: {
     playerId: string;
+    targetId?: string;
     results: { x: number; y: number; state: CellState }[];
   } | null;
   jammedArea?: {
-    playerId: string;
+    playerId: string; // The player whose ships are jammed.
+    jammerId?: string; // The player who cast the jam. Unset in saves from before it was recorded.
     coords: { x: number; y: number }[];
   } | null;
   hitLog?: { [playerId: string]: { [coord: string]: number } }; // coord: 'x,y', value: turn number
   lastHitTurn?: { [shipName: string]: number };
+  // Everything needed to rebuild the game from its first turn. Set when play begins.
+  record?: GameRecord;
+  // Why each AI move was made, newest first, for the AI reasoning panel. Not part of the record.
+  aiDecisions?: AIDecision[];
+  // Omniscient spectator views only: how many turns behind the game the view is.
+  delayTurns?: number;
+}
+
+export interface GameRecord {
+  seed: string;
+  // Fleets as they were deployed, before the first shot.
+  initialPlayers: Player[];
+  startingPlayerId: string;
+  // Engine stream state when play began; setup may already have drawn from the seed.
+  initialRngState: number;
+  // Every action accepted by the engine, in order.
+  actions: GameAction[];
+  // Humans who turned the coach on at any point in the game. Unset if nobody did.
+  coachedPlayerIds?: string[];
+}
+
+// A game as written to local storage. `version` is the save schema it was written with.
+export interface SavedGame {
+  version: number;
+  savedAt: number; // ms since epoch
+  localPlayerId: string;
+  game: GameState;
+}
+
+export interface SavedGameSummary {
+  gameId: string;
+  savedAt: number;
+  gameMode: GameMode;
+  turn: number;
+  playerNames: string[];
+}
+
+// One fleet in a new game, as configured in the lobby.
+export interface SeatConfig {
+  name: string;
+  isAI: boolean;
+  teamId?: string;
+  difficulty?: AIDifficulty;
+  strategyId?: string;
+}
+
+// An enemy fleet as seen from outside: the shots taken at it and the ships it has been seen to lose.
+export interface OpponentView {
+  id: string;
+  name: string;
+  teamId?: string;
+  isEliminated: boolean;
+  shots: Grid; // The viewer's shots at this fleet, including intel shared by allies.
+  sunkShipNames: string[];
+  afloatShips: ShipConfig[]; // The game's fleet, minus the ships announced sunk.
+}
+
+// Everything an AI commander may know about a game: its own fleet in full, and only public information about the rest.
+export interface AIView {
+  self: Player;
+  opponents: OpponentView[];
+  gameMode: GameMode;
+  gridDimensions: { rows: number; cols: number };
+  shipsConfig: ShipConfig[];
+  turn: number;
+  log: GameLogEntry[]; // With hidden details, such as which ship was hit, removed.
+  ownHitLog: { [coord: string]: number }; // When each hit on the AI's own fleet landed.
+}
+
+// The board size and fleet a game is played with: a mode's defaults, or custom rules from the lobby.
+export interface GameConfig {
+  gridDimensions: { rows: number; cols: number };
+  shipsConfig: ShipConfig[];
+}
+
+// How squares are labelled and typed: spreadsheet-style (B7, AA3), numeric (2,7) or chess-style (b6, ranks counted from the bottom).
+export type CoordinateSystem = 'SPREADSHEET' | 'NUMERIC' | 'CHESS';
+
+// How long AI turns are drawn out on screen so players can follow them, independent of how long the AI thinks.
+export type AIPacing = 'INSTANT' | 'FAST' | 'NORMAL' | 'SLOW';
+
+// Preferences kept in this browser, independent of any game.
+export interface Settings {
+  coordinateSystem: CoordinateSystem;
+  showAIReasoning: boolean;
+  aiPacing: AIPacing;
+  aiTimeBudgetMs: number; // How long an AI may think about a move before it plays a quick one instead.
+  spectatorDelayTurns: number; // How far behind the game spectators see both fleets, in games this player hosts or watches locally.
+}
+
+// A saved game written to a portable file, e.g. to attach to a bug report.
+export interface GameFile extends SavedGame {
+  format: 'battleship-tactics-game';
+}
+
+export type GameFileResult =
+  | { success: true; save: SavedGame }
+  | { success: false; errors: string[] };
+
+export type PlayerId = string;
+export interface ShipPlacement {
+  x: number;
+  y: number;
+  isHorizontal: boolean;
+}
+
+// A request to use a ship skill. Escape and Relocate without a placement pick a random valid spot.
+export type SkillRequest =
+  | { shipType: 'Mothership'; placement?: ShipPlacement }
+  | { shipType: 'Radarship'; targetId: string; x: number; y: number }
+  | { shipType: 'Jamship'; targetId: string; x: number; y: number }
+  | { shipType: 'Repairship'; x: number; y: number; targetId?: string } // targetId: an ally whose ship to repair
+  | { shipType: 'Decoyship'; x: number; y: number }
+  | { shipType: 'Commandship'; shipName: string; placement?: ShipPlacement };
+
+// How an AI spreads its fleet over the board. RANDOM is uniform; the others shape the layout against human hunting habits.
+export type PlacementStyle = 'RANDOM' | 'EDGES' | 'SPREAD' | 'CLUSTERED' | 'ANTI_DENSITY';
+
+// Where one ship of a fleet goes at deployment.
+export interface ShipDeployment {
+  shipName: string;
+  placement: ShipPlacement;
+}
+
+// The branch of an AI's decision making that produced a move.
+export type AIReason =
+  | 'ESCAPE'              // Mothership damaged, so it escapes
+  | 'REPAIR_MOTHERSHIP'
+  | 'FINISH_MOTHERSHIP'   // Follows up a hit known to be on the enemy Mothership
+  | 'HIGH_PROBABILITY'
+  | 'FOLLOW_UP'           // Chases an open hit without weighing odds
+  | 'HUNT'                // Searches on a parity pattern
+  | 'JAM_REPAIR'          // Jams around damage the enemy may repair
+  | 'RELOCATE'
+  | 'REPAIR'
+  | 'RADAR'
+  | 'DECOY'
+  | 'RANDOM'
+  | 'FALLBACK'            // The chosen move was refused or nothing better was found
+  | 'OUT_OF_TIME';        // The strategy ran past its time budget, so a quick shot was played instead
+
+// Why an AI made a move, in a form the UI can word in the player's coordinate system.
+export interface AIRationale {
+  reason: AIReason;
+  coords?: { x: number; y: number };
+  chance?: number; // 0-1: how likely the aimed square was to hold a ship.
+  shipName?: string;
+}
+
+// A move chosen by an AI strategy. Strategies may leave out the rationale.
+export interface AIMove {
+  action: GameAction;
+  rationale?: AIRationale;
+}
+
+// One entry of the AI reasoning panel.
+export interface AIDecision {
+  turn: number;
+  playerId: string;
+  playerName: string;
+  targetName?: string;
+  rationale: AIRationale;
+}
+
+// A bot that can command an AI fleet. Strategies are looked up by `id` in the AI strategy registry.
+export interface AIStrategy {
+  id: string;
+  name: string;
+  description: string;
+  // Deploys the fleet. Draws must come from `rng` so that a game seed reproduces the deployment.
+  chooseSetup: (config: GameConfig, rng: Rng) => ShipDeployment[];
+  // Picks the next shot or skill from what the AI is allowed to see, drawing only from `rng`.
+  chooseAction: (view: AIView, rng: Rng) => AIMove;
+}
+
+// What the coach shows a human player about one enemy fleet, worked out only from what that player can see.
+export interface CoachAdvice {
+  heatmap: number[][]; // 0-1 per square: how likely a shot there is to hit.
+  bestShot: { x: number; y: number; chance: number } | null;
+  // A skill that would do more this turn than a shot, in Tactical games. Radar scans from the square; Jam centres on it.
+  skill: { shipType: 'Radarship' | 'Jamship'; x: number; y: number } | null;
+}
+
+// Messages to the AI worker. A cancelled request is dropped if the worker hasn't started on it yet.
+export type AIWorkerRequest =
+  | { type: 'TAKE_TURN'; requestId: number; gameState: GameState }
+  | { type: 'CANCEL'; requestId: number };
+
+// Replies from the AI worker, one for each request it works on.
+export type AIWorkerResponse =
+  | { type: 'TURN_TAKEN'; requestId: number; gameState: GameState }
+  | { type: 'FAILED'; requestId: number; error: string };
+
+export type SkillRejectionReason =
+  | 'NOT_IN_PLAY'
+  | 'SHIP_UNAVAILABLE'
+  | 'SKILL_LOCKED'
+  | 'ON_COOLDOWN'
+  | 'NO_USES_LEFT'
+  | 'JAMMED'
+  | 'INVALID_TARGET'
+  | 'INVALID_ESCAPE_PLACEMENT'
+  | 'INVALID_RELOCATION'
+  | 'CANNOT_REPAIR'
+  | 'CANNOT_PLACE_DECOY';
+
+export type SkillResult =
+  | { success: true; state: GameState }
+  | { success: false; reason: SkillRejectionReason };
+
+// Everything a player (human, AI or remote) can do to a game in progress goes through one of these actions.
+export type GameAction =
+  | { type: 'FIRE_SHOT'; playerId: string; targetId: string; x: number; y: number }
+  | { type: 'USE_SKILL'; playerId: string; skill: SkillRequest }
+  | { type: 'SELECT_ACTION'; playerId: string; action: ActiveAction | null }
+  | { type: 'SELECT_SHIP'; playerId: string; shipType: 'Mothership' | 'Commandship'; shipName: string }
+  | { type: 'END_TURN'; playerId: string }
+  | { type: 'SURRENDER'; playerId: string };
+
+export type ActionRejectionReason =
+  | SkillRejectionReason
+  | 'NOT_YOUR_TURN'
+  | 'ALREADY_ACTED'
+  | 'TURN_NOT_FINISHED'
+  | 'INVALID_SHOT'
+  | 'INVALID_SELECTION'
+  | 'INVALID_ACTION';
+
+export type ActionResult =
+  | { success: true; state: GameState }
+  | { success: false; reason: ActionRejectionReason };
+
+// A seat in an online room, as the server assigned it. `seatToken` lets its player take the seat back after losing their connection.
+export interface OnlineSeat {
+  roomCode: string;
+  playerId: string;
+  seatToken: string;
+}
+
+// Someone watching a game rather than playing it. Spectators never act, so unlike a Player they
+// have no fleet, shots or turn, and the engine never sees them.
+export interface Spectator {
+  id: string;
+  name: string;
+}
+
+// What a spectator watches: one player's own view of the game, live, or every fleet as it stood
+// some turns ago.
+export type SpectatorViewMode =
+  | { type: 'FOLLOW'; playerId: string }
+  | { type: 'OMNISCIENT' };
+
+// Messages from a client to the realtime game server.
+export type RealtimeClientMessage =
+  | { type: 'CREATE_ROOM'; playerName: string; gameMode: GameMode; customRules?: GameConfig; spectatorDelayTurns?: number }
+  | { type: 'JOIN_ROOM'; roomCode: string; playerName: string }
+  | { type: 'REJOIN_ROOM'; seat: OnlineSeat }
+  | { type: 'DEPLOY_FLEET'; deployments: ShipDeployment[] }
+  | { type: 'GAME_ACTION'; action: GameAction }
+  | { type: 'COACH_USED' }
+  | { type: 'WATCH_ROOM'; roomCode: string; spectatorName: string; view?: SpectatorViewMode }
+  | { type: 'SET_SPECTATOR_VIEW'; view: SpectatorViewMode };
+
+// Messages from the realtime game server. `game` is always the receiving player's own view of the
+// game: their fleet and shot grids in full, and only what has been revealed of everyone else's.
+// Spectators get the view they chose instead, built by `createSpectatorView`.
+export type RealtimeServerMessage =
+  | { type: 'ROOM_JOINED'; seat: OnlineSeat }
+  | { type: 'WATCHING'; roomCode: string; spectator: Spectator; view: SpectatorViewMode; delayTurns: number }
+  | { type: 'JOIN_FAILED'; message: string }
+  | { type: 'GAME_STATE'; game: GameState }
+  | { type: 'PLAYER_CONNECTION'; playerName: string; isConnected: boolean }
+  | { type: 'ACTION_REJECTED'; reason: ActionRejectionReason }
+  | { type: 'ERROR'; message: string };
+
+// A seat in a game hosted by the game-action endpoint. Its `seatToken` is the only way to act for its player.
+export interface HostedSeat {
+  playerId: string;
+  playerName: string;
+  seatToken: string;
+}
+
+// Requests to the game-action endpoint. The server holds the game; clients only submit fleets and actions.
+export type GameServiceRequest =
+  | { type: 'CREATE_GAME'; seats: SeatConfig[]; gameMode: GameMode; seed?: string; customRules?: GameConfig }
+  | { type: 'DEPLOY_FLEET'; gameId: string; seatToken: string; deployments: ShipDeployment[] }
+  | { type: 'GAME_ACTION'; gameId: string; seatToken: string; action: GameAction }
+  | { type: 'GET_GAME'; gameId: string; seatToken: string };
+
+// `game` is always the requesting seat's view of the game, as an online player would see it.
+// Creating a game returns the seats of its human players, whose tokens the creator hands out.
+export type GameServiceResponse =
+  | { success: true; game: GameState; seats?: HostedSeat[] }
+  | { success: false; error: string; reason?: ActionRejectionReason };
+
+
+// A request to the get-ai-move endpoint: a board as an AI commander may see it, and how to play it.
+export interface AIMoveRequest {
+  view: AIView;
+  // Default to the AI settings of `view.self`.
+  difficulty?: AIDifficulty;
+  strategyId?: string;
+  // The AI's random stream. The same view and state always give the same move; a fresh stream is used if left out.
+  rngState?: number;
 }
 
-export type PlayerId = string;
\ No newline at end of file
+// `rngState` is the stream after the move, for the caller to pass with its next request.
+export type AIMoveResponse =
+  | { success: true; move: AIMove; rngState: number }
+  | { success: false; error: string; errors?: string[] };